@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import CalendarFeedLink from "@/components/CalendarFeedLink";
+import * as client from "@/lib/client";
+import { CalendarFeed } from "@/types";
+import { formatDateTime, getErrorMessage } from "@/lib/utils";
+import { toast } from "react-hot-toast";
+
+export default function AccountCalendarPage() {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [regenerating, setRegenerating] = useState(false);
+
+  useEffect(() => {
+    fetchFeed();
+  }, []);
+
+  const fetchFeed = async () => {
+    try {
+      setFeed(await client.account.calendarFeed.get());
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to fetch your calendar link"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const regenerate = async () => {
+    const message =
+      "Create a new link? Calendars subscribed with the current one will " +
+      "stop updating.";
+    if (!confirm(message)) return;
+    setRegenerating(true);
+    try {
+      setFeed(await client.account.calendarFeed.regenerate());
+      toast.success("New calendar link created");
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Failed to create a new link"));
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h2 className="text-xl font-semibold">Calendar Feed</h2>
+      <p className="mt-1 text-sm text-gray-600">
+        Subscribe to this link in Google Calendar, Apple Calendar or Outlook to
+        see every event you are registered for. It updates as registrations
+        are confirmed or cancelled; pending ones show as tentative.
+      </p>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {feed && (
+        <>
+          <div className="mt-6">
+            <CalendarFeedLink path={`/calendar/${feed.token}.ics`} />
+          </div>
+
+          <div className="mt-8 border-t pt-6">
+            <h3 className="font-medium text-gray-900">Keep it private</h3>
+            <p className="mt-1 text-sm text-gray-600">
+              Anyone with this link can see which events you have signed up
+              for. If it has been shared by mistake, replace it; the old link
+              stops working straight away. Created{" "}
+              {formatDateTime(feed.createdAt)}.
+            </p>
+            <button
+              type="button"
+              onClick={regenerate}
+              disabled={regenerating}
+              className="mt-4 px-4 py-2 border border-red-300 text-red-700 text-sm rounded-md hover:bg-red-50 disabled:opacity-50"
+            >
+              {regenerating ? "Creating..." : "Regenerate link"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
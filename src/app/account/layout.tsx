@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { cn, signInUrl } from "@/lib/utils";
+
+const ACCOUNT_SECTIONS = [
+  { href: "/account", label: "Profile" },
+  { href: "/account/security", label: "Security" },
+  { href: "/account/sessions", label: "Sessions" },
+  { href: "/account/calendar", label: "Calendar" },
+];
+
+export default function AccountLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const { user, isLoading } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  // The middleware guards the initial request; this covers signing out
+  // while an account page is open
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.replace(signInUrl(pathname));
+    }
+  }, [user, isLoading, pathname, router]);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      {isLoading || !user ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+        </div>
+      ) : (
+        <main className="flex-1 bg-gray-50 pt-16">
+          <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            <h1 className="text-3xl font-bold text-gray-900">My Account</h1>
+            <nav className="mt-6 flex space-x-6 border-b overflow-x-auto">
+              {ACCOUNT_SECTIONS.map((link) => {
+                const isActive =
+                  link.href === "/account"
+                    ? pathname === "/account"
+                    : pathname.startsWith(link.href);
+                return (
+                  <Link
+                    key={link.href}
+                    href={link.href}
+                    className={cn(
+                      "py-3 text-sm font-medium border-b-2 -mb-px whitespace-nowrap",
+                      isActive
+                        ? "border-orange-600 text-orange-600"
+                        : "border-transparent text-gray-600 hover:text-orange-600"
+                    )}
+                  >
+                    {link.label}
+                  </Link>
+                );
+              })}
+            </nav>
+            <div className="mt-8">{children}</div>
+          </div>
+        </main>
+      )}
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { useAuth } from "@/contexts/AuthContext";
+import VerifyEmailNotice from "@/components/VerifyEmailNotice";
+import { ProfileUpdateData } from "@/types";
+import { getImageUrl } from "@/lib/utils";
+import { ROLE_LABELS } from "@/lib/permissions";
+import { toast } from "react-hot-toast";
+
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+
+export default function AccountProfilePage() {
+  const { user, updateProfile, uploadAvatar } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<ProfileUpdateData>({
+    defaultValues: { name: user?.name, phone: user?.phone },
+  });
+
+  // Revoke the preview URL when it is replaced or the page unmounts
+  useEffect(() => {
+    if (!avatarPreview) return;
+    return () => URL.revokeObjectURL(avatarPreview);
+  }, [avatarPreview]);
+
+  if (!user) return null;
+
+  const onSubmit = async (data: ProfileUpdateData) => {
+    setSaving(true);
+    try {
+      await updateProfile(data);
+      reset(data);
+    } catch (error) {
+      // Error is handled in AuthContext
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please choose an image file");
+      return;
+    }
+    if (file.size > MAX_AVATAR_BYTES) {
+      toast.error("Avatar must be 2 MB or smaller");
+      return;
+    }
+    setAvatarFile(file);
+    setAvatarPreview(URL.createObjectURL(file));
+  };
+
+  const cancelAvatar = () => {
+    setAvatarFile(null);
+    setAvatarPreview(null);
+  };
+
+  const saveAvatar = async () => {
+    if (!avatarFile) return;
+    setUploading(true);
+    try {
+      await uploadAvatar(avatarFile);
+      cancelAvatar();
+    } catch (error) {
+      // Error is handled in AuthContext
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const avatarSrc =
+    avatarPreview || (user.profileImage && getImageUrl(user.profileImage));
+
+  return (
+    <div className="space-y-8">
+      {!user.emailVerified && <VerifyEmailNotice />}
+
+      {/* Avatar */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-xl font-semibold mb-4">Profile Photo</h2>
+        <div className="flex items-center space-x-6">
+          {avatarSrc ? (
+            <img
+              src={avatarSrc}
+              alt={user.name}
+              className="w-24 h-24 rounded-full object-cover"
+            />
+          ) : (
+            <div className="w-24 h-24 rounded-full bg-orange-100 text-orange-600 flex items-center justify-center text-3xl font-bold">
+              {user.name.charAt(0).toUpperCase()}
+            </div>
+          )}
+          <div className="space-y-2">
+            <input
+              ref={fileInput}
+              type="file"
+              accept="image/*"
+              onChange={handleAvatarChange}
+              className="hidden"
+            />
+            {avatarFile ? (
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={saveAvatar}
+                  disabled={uploading}
+                  className="bg-orange-600 text-white px-4 py-2 rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {uploading ? "Uploading..." : "Save Photo"}
+                </button>
+                <button
+                  type="button"
+                  onClick={cancelAvatar}
+                  disabled={uploading}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => fileInput.current?.click()}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+              >
+                Change Photo
+              </button>
+            )}
+            <p className="text-sm text-gray-500">JPG, PNG or GIF, up to 2 MB</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Details */}
+      <form
+        onSubmit={handleSubmit(onSubmit)}
+        className="bg-white rounded-lg shadow-sm p-6 space-y-4"
+      >
+        <h2 className="text-xl font-semibold">Personal Information</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="name"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Full Name
+            </label>
+            <input
+              id="name"
+              {...register("name", {
+                required: "Name is required",
+                minLength: {
+                  value: 2,
+                  message: "Name must be at least 2 characters",
+                },
+              })}
+              type="text"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+            />
+            {errors.name && (
+              <p className="mt-1 text-sm text-red-600">
+                {errors.name.message}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label
+              htmlFor="phone"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Phone Number
+            </label>
+            <input
+              id="phone"
+              {...register("phone", {
+                required: "Phone number is required",
+              })}
+              type="tel"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+            />
+            {errors.phone && (
+              <p className="mt-1 text-sm text-red-600">
+                {errors.phone.message}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              Email Address
+            </span>
+            <p className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-md text-gray-700 flex items-center justify-between">
+              <span className="truncate">{user.email}</span>
+              <span
+                className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+                  user.emailVerified
+                    ? "bg-green-100 text-green-800"
+                    : "bg-yellow-100 text-yellow-800"
+                }`}
+              >
+                {user.emailVerified ? "Verified" : "Unverified"}
+              </span>
+            </p>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              Account Type
+            </span>
+            <p className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-md text-gray-700">
+              {ROLE_LABELS[user.role]}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving || !isDirty}
+            className="bg-orange-600 text-white px-6 py-2 rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? "Saving..." : "Save Changes"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
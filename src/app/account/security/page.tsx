@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { useAuth } from "@/contexts/AuthContext";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+
+interface ChangePasswordFormData {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+export default function AccountSecurityPage() {
+  const { changePassword } = useAuth();
+  const [saving, setSaving] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<ChangePasswordFormData>();
+
+  const newPassword = watch("newPassword");
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    setSaving(true);
+    try {
+      await changePassword({
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      reset();
+    } catch (error) {
+      // Error is handled in AuthContext
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <form
+        onSubmit={handleSubmit(onSubmit)}
+        className="bg-white rounded-lg shadow-sm p-6 space-y-4 max-w-xl"
+      >
+        <div>
+          <h2 className="text-xl font-semibold">Change Password</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Changing your password signs you out on every other device.
+          </p>
+        </div>
+
+        <div>
+          <label
+            htmlFor="currentPassword"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Current Password
+          </label>
+          <input
+            id="currentPassword"
+            {...register("currentPassword", {
+              required: "Current password is required",
+            })}
+            type="password"
+            autoComplete="current-password"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+          />
+          {errors.currentPassword && (
+            <p className="mt-1 text-sm text-red-600">
+              {errors.currentPassword.message}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label
+            htmlFor="newPassword"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            New Password
+          </label>
+          <input
+            id="newPassword"
+            {...register("newPassword", {
+              required: "New password is required",
+              minLength: {
+                value: 6,
+                message: "Password must be at least 6 characters",
+              },
+            })}
+            type="password"
+            autoComplete="new-password"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+          />
+          {errors.newPassword && (
+            <p className="mt-1 text-sm text-red-600">
+              {errors.newPassword.message}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label
+            htmlFor="confirmPassword"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Confirm New Password
+          </label>
+          <input
+            id="confirmPassword"
+            {...register("confirmPassword", {
+              required: "Please confirm your new password",
+              validate: (value) =>
+                value === newPassword || "Passwords do not match",
+            })}
+            type="password"
+            autoComplete="new-password"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+          />
+          {errors.confirmPassword && (
+            <p className="mt-1 text-sm text-red-600">
+              {errors.confirmPassword.message}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-orange-600 text-white px-6 py-2 rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? "Updating..." : "Update Password"}
+          </button>
+        </div>
+      </form>
+
+      <TwoFactorSettings />
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import * as client from "@/lib/client";
+import { Session } from "@/types";
+import { formatDateTime, getErrorMessage } from "@/lib/utils";
+import { toast } from "react-hot-toast";
+
+export default function AccountSessionsPage() {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      setSessions(await client.account.sessions.list());
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to fetch sessions"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revokeSession = async (id: string) => {
+    setRevoking(id);
+    try {
+      await client.account.sessions.revoke(id);
+      toast.success("Session signed out");
+      fetchSessions();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Failed to sign out session"));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const revokeOthers = async () => {
+    if (!confirm("Sign out of every other device?")) return;
+    setRevoking("others");
+    try {
+      await client.account.sessions.revokeOthers();
+      toast.success("Signed out of all other sessions");
+      fetchSessions();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Failed to sign out sessions"));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">Active Sessions</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Devices currently signed in to your account.
+          </p>
+        </div>
+        {hasOthers && (
+          <button
+            onClick={revokeOthers}
+            disabled={revoking !== null}
+            className="px-4 py-2 border border-red-300 text-red-700 text-sm rounded-md hover:bg-red-50 disabled:opacity-50"
+          >
+            Sign out all other sessions
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {sessions.length === 0 && !error ? (
+        <p className="text-gray-500">No active sessions</p>
+      ) : (
+        <ul className="divide-y">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className="py-4 flex items-center justify-between"
+            >
+              <div>
+                <p className="font-medium text-gray-900">
+                  {session.device}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  Signed in {formatDateTime(session.createdAt)} · Last active{" "}
+                  {formatDateTime(session.lastActiveAt)}
+                </p>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() => revokeSession(session.id)}
+                  disabled={revoking !== null}
+                  className="text-red-600 hover:text-red-800 text-sm font-medium disabled:opacity-50"
+                >
+                  {revoking === session.id ? "Signing out..." : "Sign out"}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,33 +1,19 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
-import Header from "@/components/Header";
-import Footer from "@/components/Footer";
-import api from "@/lib/api";
+import * as client from "@/lib/client";
+import { Contact } from "@/types";
+import { getErrorMessage } from "@/lib/utils";
 import { toast } from "react-hot-toast";
-
-interface Contact {
-  _id: string;
-  name: string;
-  email: string;
-  phone?: string;
-  subject: string;
-  message: string;
-  status: "new" | "in-progress" | "resolved" | "closed";
-  priority: "low" | "medium" | "high" | "urgent";
-  adminNotes?: string;
-  responseDate?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import { can } from "@/lib/permissions";
 
 export default function AdminContactsPage() {
-  const { user, isLoading } = useAuth();
-  const router = useRouter();
+  const { user } = useAuth();
+  const canUpdate = can(user, "update", "contacts");
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
   const [adminNotes, setAdminNotes] = useState("");
   const [filters, setFilters] = useState({
@@ -37,53 +23,31 @@ export default function AdminContactsPage() {
   });
 
   useEffect(() => {
-    if (!isLoading && (!user || user.role !== "admin")) {
-      router.push("/signin");
-      return;
-    }
-
-    if (user && user.role === "admin") {
-      fetchContacts();
-    }
-  }, [user, isLoading, router, filters]);
-
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
-      </div>
-    );
-  }
-
-  if (!user || user.role !== "admin") {
-    return null;
-  }
+    fetchContacts();
+  }, [filters]);
 
   const fetchContacts = async () => {
     try {
       setLoading(true);
-      const params = new URLSearchParams();
-      if (filters.status) params.append("status", filters.status);
-      if (filters.priority) params.append("priority", filters.priority);
-      if (filters.search) params.append("search", filters.search);
-
-      const response = await api.get(`/admin/contacts?${params.toString()}`);
-      setContacts(response.data.contacts || []);
-    } catch (error) {
+      setContacts(await client.admin.contacts.list(filters));
+      setError(null);
+    } catch (err) {
       toast.error("Failed to fetch contacts");
-      console.error("Error fetching contacts:", error);
+      console.error("Error fetching contacts:", err);
+      setError(getErrorMessage(err, "Failed to fetch contacts"));
     } finally {
       setLoading(false);
     }
   };
 
-  const updateContactStatus = async (contactId: string, newStatus: string) => {
+  const updateContactStatus = async (contactId: string, value: string) => {
+    const newStatus = value as Contact["status"];
     try {
-      await api.patch(`/admin/contacts/${contactId}`, { status: newStatus });
+      await client.admin.contacts.update(contactId, { status: newStatus });
       toast.success("Contact status updated successfully");
       fetchContacts();
       if (selectedContact && selectedContact._id === contactId) {
-        setSelectedContact({ ...selectedContact, status: newStatus as any });
+        setSelectedContact({ ...selectedContact, status: newStatus });
       }
     } catch (error) {
       toast.error("Failed to update contact status");
@@ -93,10 +57,11 @@ export default function AdminContactsPage() {
 
   const updateContactPriority = async (
     contactId: string,
-    newPriority: string
+    value: string
   ) => {
+    const newPriority = value as Contact["priority"];
     try {
-      await api.patch(`/admin/contacts/${contactId}`, {
+      await client.admin.contacts.update(contactId, {
         priority: newPriority,
       });
       toast.success("Contact priority updated successfully");
@@ -104,7 +69,7 @@ export default function AdminContactsPage() {
       if (selectedContact && selectedContact._id === contactId) {
         setSelectedContact({
           ...selectedContact,
-          priority: newPriority as any,
+          priority: newPriority,
         });
       }
     } catch (error) {
@@ -115,7 +80,7 @@ export default function AdminContactsPage() {
 
   const updateAdminNotes = async (contactId: string, notes: string) => {
     try {
-      await api.patch(`/admin/contacts/${contactId}`, { adminNotes: notes });
+      await client.admin.contacts.update(contactId, { adminNotes: notes });
       toast.success("Admin notes updated successfully");
       fetchContacts();
       if (selectedContact && selectedContact._id === contactId) {
@@ -159,24 +124,17 @@ export default function AdminContactsPage() {
 
   if (loading) {
     return (
-      <div className="min-h-screen flex flex-col">
-        <Header />
-        <div className="flex-1 flex items-center justify-center">
+      <div className="flex items-center justify-center py-24">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600 mx-auto"></div>
             <p className="mt-4 text-gray-600">Loading contacts...</p>
           </div>
         </div>
-        <Footer />
-      </div>
     );
   }
 
   return (
-    <div className="min-h-screen flex flex-col">
-      <Header />
-
-      <main className="flex-1 bg-gray-50">
+    <>
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           {/* Header */}
           <div className="mb-8">
@@ -260,9 +218,15 @@ export default function AdminContactsPage() {
             </div>
           </div>
 
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-8">
+              <p className="text-red-800">{error}</p>
+            </div>
+          )}
+
           {/* Contacts List */}
           <div className="space-y-4">
-            {contacts.length === 0 ? (
+            {error ? null : contacts.length === 0 ? (
               <div className="text-center py-12">
                 <p className="text-gray-500 text-lg">
                   No contact messages found
@@ -351,10 +315,11 @@ export default function AdminContactsPage() {
 
                       <select
                         value={contact.status}
+                        disabled={!canUpdate}
                         onChange={(e) =>
                           updateContactStatus(contact._id, e.target.value)
                         }
-                        className="text-sm px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+                        className="text-sm px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 disabled:bg-gray-100 disabled:text-gray-500"
                       >
                         <option value="new">New</option>
                         <option value="in-progress">In Progress</option>
@@ -364,10 +329,11 @@ export default function AdminContactsPage() {
 
                       <select
                         value={contact.priority}
+                        disabled={!canUpdate}
                         onChange={(e) =>
                           updateContactPriority(contact._id, e.target.value)
                         }
-                        className="text-sm px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+                        className="text-sm px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 disabled:bg-gray-100 disabled:text-gray-500"
                       >
                         <option value="low">Low</option>
                         <option value="medium">Medium</option>
@@ -381,7 +347,6 @@ export default function AdminContactsPage() {
             )}
           </div>
         </div>
-      </main>
 
       {/* Contact Details Modal */}
       {selectedContact && (
@@ -486,28 +451,32 @@ export default function AdminContactsPage() {
                   <textarea
                     value={adminNotes}
                     onChange={(e) => setAdminNotes(e.target.value)}
+                    readOnly={!canUpdate}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
                     rows={4}
                     placeholder="Add internal notes about this contact..."
                   />
-                  <button
-                    onClick={() =>
-                      updateAdminNotes(selectedContact._id, adminNotes)
-                    }
-                    className="mt-2 px-4 py-2 bg-orange-600 text-white rounded hover:bg-orange-700"
-                  >
-                    Update Notes
-                  </button>
+                  {canUpdate && (
+                    <button
+                      onClick={() =>
+                        updateAdminNotes(selectedContact._id, adminNotes)
+                      }
+                      className="mt-2 px-4 py-2 bg-orange-600 text-white rounded hover:bg-orange-700"
+                    >
+                      Update Notes
+                    </button>
+                  )}
                 </div>
               </div>
 
               <div className="flex justify-end space-x-3 mt-6 pt-4 border-t">
                 <select
                   value={selectedContact.status}
+                  disabled={!canUpdate}
                   onChange={(e) =>
                     updateContactStatus(selectedContact._id, e.target.value)
                   }
-                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 disabled:bg-gray-100 disabled:text-gray-500"
                 >
                   <option value="new">New</option>
                   <option value="in-progress">In Progress</option>
@@ -517,10 +486,11 @@ export default function AdminContactsPage() {
 
                 <select
                   value={selectedContact.priority}
+                  disabled={!canUpdate}
                   onChange={(e) =>
                     updateContactPriority(selectedContact._id, e.target.value)
                   }
-                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 disabled:bg-gray-100 disabled:text-gray-500"
                 >
                   <option value="low">Low</option>
                   <option value="medium">Medium</option>
@@ -539,8 +509,6 @@ export default function AdminContactsPage() {
           </div>
         </div>
       )}
-
-      <Footer />
-    </div>
+    </>
   );
 }
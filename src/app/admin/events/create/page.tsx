@@ -4,10 +4,7 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { toast } from "react-hot-toast";
-import { useAuth } from "@/contexts/AuthContext";
-import Header from "@/components/Header";
-import Footer from "@/components/Footer";
-import api from "@/lib/api";
+import * as client from "@/lib/client";
 
 interface EventFormData {
   title: string;
@@ -34,7 +31,6 @@ interface EventFormData {
 }
 
 export default function CreateEventPage() {
-  const { user, isLoading } = useAuth();
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [images, setImages] = useState<File[]>([]);
@@ -64,19 +60,6 @@ export default function CreateEventPage() {
   const includes = watch("includes") || [];
   const tags = watch("tags") || [];
 
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
-      </div>
-    );
-  }
-
-  if (!user || user.role !== "admin") {
-    router.push("/signin");
-    return null;
-  }
-
   const addItem = (
     type: "equipment" | "requirements" | "includes" | "tags",
     value: string
@@ -146,11 +129,7 @@ export default function CreateEventPage() {
         }
       });
 
-      const response = await api.post("/admin/events", formData, {
-        headers: {
-          "Content-Type": "multipart/form-data",
-        },
-      });
+      await client.admin.events.create(formData);
 
       toast.success("Event created successfully!");
       router.push("/admin/events");
@@ -162,10 +141,6 @@ export default function CreateEventPage() {
   };
 
   return (
-    <div className="min-h-screen flex flex-col">
-      <Header />
-
-      <main className="flex-1 bg-gray-50">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="mb-8">
             <h1 className="text-3xl font-bold text-gray-900">
@@ -690,9 +665,5 @@ export default function CreateEventPage() {
             </div>
           </form>
         </div>
-      </main>
-
-      <Footer />
-    </div>
   );
 }
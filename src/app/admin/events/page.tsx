@@ -3,18 +3,22 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
-import Header from "@/components/Header";
-import Footer from "@/components/Footer";
-import api from "@/lib/api";
+import * as client from "@/lib/client";
 import { Event } from "@/types";
 import { toast } from "react-hot-toast";
-import { getImageUrl } from "@/lib/utils";
+import { getImageUrl, getErrorMessage } from "@/lib/utils";
+import { can } from "@/lib/permissions";
 
 export default function AdminEventsPage() {
-  const { user, isLoading } = useAuth();
+  const { user } = useAuth();
   const router = useRouter();
+  const canCreate = can(user, "create", "events");
+  const canUpdate = can(user, "update", "events");
+  const canDelete = can(user, "delete", "events");
+  const canViewRegistrations = can(user, "view", "registrations");
   const [events, setEvents] = useState<Event[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [filters, setFilters] = useState({
     status: "",
     difficulty: "",
@@ -22,36 +26,28 @@ export default function AdminEventsPage() {
   });
 
   useEffect(() => {
-    if (!isLoading && (!user || user.role !== "admin")) {
-      router.push("/signin");
-      return;
-    }
-
-    if (user && user.role === "admin") {
-      fetchEvents();
-    }
-  }, [user, isLoading, router, filters]);
+    fetchEvents();
+  }, [filters]);
 
   const fetchEvents = async () => {
     try {
       setLoading(true);
-      const params = new URLSearchParams();
-      if (filters.status) params.append("status", filters.status);
-      if (filters.difficulty) params.append("difficulty", filters.difficulty);
-      if (filters.search) params.append("search", filters.search);
-
-      const response = await api.get(`/admin/events?${params.toString()}`);
-      setEvents(response.data.events);
-    } catch (error) {
+      setEvents(await client.admin.events.list(filters));
+      setError(null);
+    } catch (err) {
       toast.error("Failed to fetch events");
+      setError(getErrorMessage(err, "Failed to fetch events"));
     } finally {
       setLoading(false);
     }
   };
 
-  const handleStatusChange = async (eventId: string, newStatus: string) => {
+  const handleStatusChange = async (
+    eventId: string,
+    newStatus: Event["status"]
+  ) => {
     try {
-      await api.patch(`/admin/events/${eventId}`, { status: newStatus });
+      await client.admin.events.update(eventId, { status: newStatus });
       toast.success("Event status updated successfully");
       fetchEvents();
     } catch (error) {
@@ -69,7 +65,7 @@ export default function AdminEventsPage() {
     }
 
     try {
-      await api.delete(`/admin/events/${eventId}`);
+      await client.admin.events.remove(eventId);
       toast.success("Event deleted successfully");
       fetchEvents();
     } catch (error) {
@@ -77,30 +73,18 @@ export default function AdminEventsPage() {
     }
   };
 
-  if (isLoading || (loading && events.length === 0)) {
+  if (loading && events.length === 0) {
     return (
-      <div className="min-h-screen flex flex-col">
-        <Header />
-        <div className="flex-1 flex items-center justify-center">
+      <div className="flex items-center justify-center py-24">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600 mx-auto"></div>
             <p className="mt-4 text-gray-600">Loading events...</p>
           </div>
         </div>
-        <Footer />
-      </div>
     );
   }
 
-  if (!user || user.role !== "admin") {
-    return null;
-  }
-
   return (
-    <div className="min-h-screen flex flex-col">
-      <Header />
-
-      <main className="flex-1 bg-gray-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           {/* Header */}
           <div className="flex items-center justify-between mb-8">
@@ -112,12 +96,14 @@ export default function AdminEventsPage() {
                 Create, edit, and manage adventure events
               </p>
             </div>
-            <button
-              onClick={() => router.push("/admin/events/create")}
-              className="bg-orange-600 text-white px-6 py-3 rounded-lg hover:bg-orange-700 transition-colors"
-            >
-              Create New Event
-            </button>
+            {canCreate && (
+              <button
+                onClick={() => router.push("/admin/events/create")}
+                className="bg-orange-600 text-white px-6 py-3 rounded-lg hover:bg-orange-700 transition-colors"
+              >
+                Create New Event
+              </button>
+            )}
           </div>
 
           {/* Filters */}
@@ -192,6 +178,12 @@ export default function AdminEventsPage() {
             </div>
           </div>
 
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-8">
+              <p className="text-red-800">{error}</p>
+            </div>
+          )}
+
           {/* Events List */}
           <div className="space-y-6">
             {events.map((event) => (
@@ -293,10 +285,14 @@ export default function AdminEventsPage() {
                     <div className="flex items-center space-x-4">
                       <select
                         value={event.status}
+                        disabled={!canUpdate}
                         onChange={(e) =>
-                          handleStatusChange(event._id, e.target.value)
+                          handleStatusChange(
+                            event._id,
+                            e.target.value as Event["status"]
+                          )
                         }
-                        className="text-sm px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+                        className="text-sm px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 disabled:bg-gray-100 disabled:text-gray-500"
                       >
                         <option value="active">Active</option>
                         <option value="draft">Draft</option>
@@ -317,49 +313,63 @@ export default function AdminEventsPage() {
                       >
                         View
                       </button>
-                      <button
-                        onClick={() =>
-                          router.push(`/admin/events/${event._id}/edit`)
-                        }
-                        className="text-orange-600 hover:text-orange-800 text-sm font-medium"
-                      >
-                        Edit
-                      </button>
-                      <button
-                        onClick={() =>
-                          router.push(
-                            `/admin/events/${event._id}/registrations`
-                          )
-                        }
-                        className="text-green-600 hover:text-green-800 text-sm font-medium"
-                      >
-                        Registrations ({event.currentParticipants})
-                      </button>
-                      <button
-                        onClick={() => handleDeleteEvent(event._id)}
-                        className="text-red-600 hover:text-red-800 text-sm font-medium"
-                      >
-                        Delete
-                      </button>
+                      {canUpdate && (
+                        <button
+                          onClick={() =>
+                            router.push(`/admin/events/${event._id}/edit`)
+                          }
+                          className="text-orange-600 hover:text-orange-800 text-sm font-medium"
+                        >
+                          Edit
+                        </button>
+                      )}
+                      {canViewRegistrations && (
+                        <button
+                          onClick={() =>
+                            router.push(`/admin/registrations?event=${event._id}`)
+                          }
+                          className="text-green-600 hover:text-green-800 text-sm font-medium"
+                        >
+                          Registrations ({event.currentParticipants})
+                        </button>
+                      )}
+                      {canViewRegistrations && (
+                        <button
+                          onClick={() =>
+                            router.push(
+                              `/admin/registrations?event=${event._id}&tab=waitlist`
+                            )
+                          }
+                          className="text-green-600 hover:text-green-800 text-sm font-medium"
+                        >
+                          Waitlist
+                        </button>
+                      )}
+                      {canDelete && (
+                        <button
+                          onClick={() => handleDeleteEvent(event._id)}
+                          className="text-red-600 hover:text-red-800 text-sm font-medium"
+                        >
+                          Delete
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
               </div>
             ))}
 
-            {events.length === 0 && !loading && (
+            {events.length === 0 && !loading && !error && (
               <div className="text-center py-12">
                 <p className="text-gray-500 text-lg">No events found</p>
-                <p className="text-gray-400 mt-2">
-                  Create your first event to get started
-                </p>
+                {canCreate && (
+                  <p className="text-gray-400 mt-2">
+                    Create your first event to get started
+                  </p>
+                )}
               </div>
             )}
           </div>
         </div>
-      </main>
-
-      <Footer />
-    </div>
   );
 }
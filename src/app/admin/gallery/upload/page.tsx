@@ -4,10 +4,7 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { toast } from "react-hot-toast";
-import { useAuth } from "@/contexts/AuthContext";
-import Header from "@/components/Header";
-import Footer from "@/components/Footer";
-import api from "@/lib/api";
+import * as client from "@/lib/client";
 import React from "react";
 
 interface GalleryFormData {
@@ -33,7 +30,6 @@ interface Event {
 }
 
 export default function UploadGalleryPage() {
-  const { user, isLoading } = useAuth();
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [images, setImages] = useState<File[]>([]);
@@ -65,24 +61,10 @@ export default function UploadGalleryPage() {
     }
   }, [category]);
 
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
-      </div>
-    );
-  }
-
-  if (!user || user.role !== "admin") {
-    router.push("/signin");
-    return null;
-  }
-
   const fetchEvents = async () => {
     try {
       setLoadingEvents(true);
-      const response = await api.get("/events");
-      setEvents(response.data.events || []);
+      setEvents((await client.events.list()).data);
     } catch (error) {
       console.error("Failed to fetch events:", error);
     } finally {
@@ -164,11 +146,7 @@ export default function UploadGalleryPage() {
           formData.append("tags[]", tag);
         });
 
-        await api.post("gallery/", formData, {
-          headers: {
-            "Content-Type": "multipart/form-data",
-          },
-        });
+        await client.gallery.upload(formData);
       }
 
       toast.success(`${images.length} image(s) uploaded successfully!`);
@@ -181,10 +159,6 @@ export default function UploadGalleryPage() {
   };
 
   return (
-    <div className="min-h-screen flex flex-col">
-      <Header />
-
-      <main className="flex-1 bg-gray-50">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="mb-8">
             <h1 className="text-3xl font-bold text-gray-900">Upload Images</h1>
@@ -488,9 +462,5 @@ export default function UploadGalleryPage() {
             </div>
           </form>
         </div>
-      </main>
-
-      <Footer />
-    </div>
   );
 }
@@ -0,0 +1,377 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { useAuth } from "@/contexts/AuthContext";
+import * as client from "@/lib/client";
+import { Invite, InviteFormData } from "@/types";
+import { formatDateTime, getErrorMessage } from "@/lib/utils";
+import { toast } from "react-hot-toast";
+import { can, ROLE_LABELS, STAFF_ROLES } from "@/lib/permissions";
+
+export default function AdminInvitesPage() {
+  const { user } = useAuth();
+  const canCreate = can(user, "create", "invites");
+  const canUpdate = can(user, "update", "invites");
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState("");
+  const [sending, setSending] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Shown until dismissed so the link can be shared by other means
+  const [lastLink, setLastLink] = useState<{
+    email: string;
+    url: string;
+  } | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<InviteFormData>({ defaultValues: { role: "event_manager" } });
+
+  useEffect(() => {
+    fetchInvites();
+  }, [status]);
+
+  const fetchInvites = async () => {
+    try {
+      setLoading(true);
+      setInvites(
+        await client.admin.invites.list({
+          status: (status || undefined) as Invite["status"] | undefined,
+        })
+      );
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to fetch invites"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showLink = (email: string, inviteUrl: string) => {
+    setLastLink({
+      email,
+      url: new URL(inviteUrl, window.location.origin).toString(),
+    });
+  };
+
+  const onSubmit = async (data: InviteFormData) => {
+    setSending(true);
+    try {
+      const { invite, inviteUrl } = await client.admin.invites.create({
+        ...data,
+        name: data.name || undefined,
+      });
+      toast.success(`Invite sent to ${invite.email}`);
+      showLink(invite.email, inviteUrl);
+      reset({ email: "", name: "", role: data.role });
+      fetchInvites();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Failed to send invite"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const resendInvite = async (invite: Invite) => {
+    setBusyId(invite._id);
+    try {
+      const { inviteUrl } = await client.admin.invites.resend(invite._id);
+      toast.success(`Invite re-sent to ${invite.email}`);
+      showLink(invite.email, inviteUrl);
+      fetchInvites();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Failed to resend invite"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revokeInvite = async (invite: Invite) => {
+    if (!confirm(`Revoke the invite for ${invite.email}?`)) return;
+    setBusyId(invite._id);
+    try {
+      await client.admin.invites.revoke(invite._id);
+      toast.success("Invite revoked");
+      if (lastLink?.email === invite.email) setLastLink(null);
+      fetchInvites();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Failed to revoke invite"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!lastLink) return;
+    try {
+      await navigator.clipboard.writeText(lastLink.url);
+      toast.success("Invite link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const getStatusColor = (status: Invite["status"]) => {
+    switch (status) {
+      case "pending":
+        return "bg-yellow-100 text-yellow-800";
+      case "accepted":
+        return "bg-green-100 text-green-800";
+      case "revoked":
+        return "bg-red-100 text-red-800";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Team</h1>
+        <p className="mt-2 text-gray-600">
+          Invite staff members and track outstanding invites
+        </p>
+      </div>
+
+      {/* Invite Form */}
+      {canCreate && (
+        <form
+          onSubmit={handleSubmit(onSubmit)}
+          className="bg-white rounded-lg shadow-sm p-6 mb-8"
+        >
+          <h2 className="text-lg font-semibold mb-4">Invite a Staff Member</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+            <div>
+              <label
+                htmlFor="email"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                {...register("email", {
+                  required: "Email is required",
+                  pattern: {
+                    value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                    message: "Invalid email address",
+                  },
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+                placeholder="name@example.com"
+              />
+              {errors.email && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.email.message}
+                </p>
+              )}
+            </div>
+            <div>
+              <label
+                htmlFor="name"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Name (optional)
+              </label>
+              <input
+                id="name"
+                type="text"
+                {...register("name")}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="role"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Role
+              </label>
+              <select
+                id="role"
+                {...register("role", { required: true })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+              >
+                {STAFF_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="md:pt-7">
+              <button
+                type="submit"
+                disabled={sending}
+                className="w-full bg-orange-600 text-white px-4 py-2 rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {sending ? "Sending..." : "Send Invite"}
+              </button>
+            </div>
+          </div>
+          <p className="mt-4 text-sm text-gray-500">
+            Invite links expire after 7 days and can only be used once.
+          </p>
+        </form>
+      )}
+
+      {lastLink && (
+        <div className="bg-orange-50 border border-orange-200 rounded-md p-4 mb-8">
+          <div className="flex items-start justify-between">
+            <p className="text-sm text-orange-900">
+              Invite link for <strong>{lastLink.email}</strong>
+            </p>
+            <button
+              onClick={() => setLastLink(null)}
+              className="text-sm text-orange-700 hover:text-orange-900"
+            >
+              Dismiss
+            </button>
+          </div>
+          <div className="mt-2 flex space-x-2">
+            <input
+              type="text"
+              readOnly
+              value={lastLink.url}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 text-sm border border-orange-200 rounded-md bg-white text-gray-700"
+            />
+            <button
+              onClick={copyLink}
+              className="px-4 py-2 text-sm bg-orange-600 text-white rounded-md hover:bg-orange-700"
+            >
+              Copy
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Invites</h2>
+        <select
+          aria-label="Filter by status"
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+        >
+          <option value="">All Statuses</option>
+          <option value="pending">Pending</option>
+          <option value="accepted">Accepted</option>
+          <option value="revoked">Revoked</option>
+          <option value="expired">Expired</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-8">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Invites List */}
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+        </div>
+      ) : error ? null : invites.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm">
+          <p className="text-gray-500 text-lg">No invites found</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Invitee
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Invited
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invites.map((invite) => (
+                <tr key={invite._id}>
+                  <td className="px-6 py-4">
+                    <p className="font-medium text-gray-900">
+                      {invite.name || invite.email}
+                    </p>
+                    {invite.name && (
+                      <p className="text-sm text-gray-500">{invite.email}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {ROLE_LABELS[invite.role]}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span
+                      className={`px-2 py-1 text-xs rounded-full ${getStatusColor(
+                        invite.status
+                      )}`}
+                    >
+                      {invite.status}
+                    </span>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {invite.status === "accepted" && invite.acceptedAt
+                        ? `Accepted ${formatDateTime(invite.acceptedAt)}`
+                        : invite.status === "revoked" && invite.revokedAt
+                        ? `Revoked ${formatDateTime(invite.revokedAt)}`
+                        : invite.status === "expired"
+                        ? `Expired ${formatDateTime(invite.expiresAt)}`
+                        : `Expires ${formatDateTime(invite.expiresAt)}`}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {formatDateTime(invite.createdAt)}
+                    <br />
+                    by {invite.invitedBy.name}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm space-x-3 whitespace-nowrap">
+                    {canUpdate &&
+                      (invite.status === "pending" ||
+                        invite.status === "expired") && (
+                        <button
+                          onClick={() => resendInvite(invite)}
+                          disabled={busyId !== null}
+                          className="text-orange-600 hover:text-orange-800 font-medium disabled:opacity-50"
+                        >
+                          Resend
+                        </button>
+                      )}
+                    {canUpdate && invite.status === "pending" && (
+                      <button
+                        onClick={() => revokeInvite(invite)}
+                        disabled={busyId !== null}
+                        className="text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
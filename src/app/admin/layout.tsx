@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import {
+  ADMIN_SECTIONS,
+  can,
+  canAccessAdminPage,
+  isStaff,
+  needsTwoFactorSetup,
+} from "@/lib/permissions";
+import { cn, signInUrl } from "@/lib/utils";
+
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const { user, isLoading } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+  const hasStaffAccess = isStaff(user) && !needsTwoFactorSetup(user);
+  const hasPageAccess = canAccessAdminPage(user, pathname);
+
+  // The middleware guards the initial request; this covers sessions that end
+  // while an admin page is already open.
+  useEffect(() => {
+    if (isLoading) return;
+    if (!user) {
+      router.replace(signInUrl(pathname));
+    } else if (needsTwoFactorSetup(user)) {
+      router.replace("/account/security");
+    } else if (!hasStaffAccess) {
+      router.replace("/");
+    }
+  }, [user, hasStaffAccess, isLoading, pathname, router]);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      {isLoading || !hasStaffAccess ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+        </div>
+      ) : (
+        <main className="flex-1 bg-gray-50 pt-16">
+          <nav className="bg-white border-b">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 flex space-x-6 overflow-x-auto">
+              {ADMIN_SECTIONS.filter((section) =>
+                can(user, section.action, section.resource)
+              ).map((link) => {
+                const isActive =
+                  link.href === "/admin"
+                    ? pathname === "/admin"
+                    : pathname.startsWith(link.href);
+                return (
+                  <Link
+                    key={link.href}
+                    href={link.href}
+                    className={cn(
+                      "py-4 text-sm font-medium border-b-2 whitespace-nowrap",
+                      isActive
+                        ? "border-orange-600 text-orange-600"
+                        : "border-transparent text-gray-600 hover:text-orange-600"
+                    )}
+                  >
+                    {link.label}
+                  </Link>
+                );
+              })}
+            </div>
+          </nav>
+          {hasPageAccess ? (
+            children
+          ) : (
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+              <p className="text-gray-700 text-lg">
+                You don&apos;t have permission to view this page.
+              </p>
+              <Link
+                href="/admin"
+                className="mt-4 inline-block bg-orange-600 text-white px-4 py-2 rounded-md hover:bg-orange-700"
+              >
+                Back to Dashboard
+              </Link>
+            </div>
+          )}
+        </main>
+      )}
+
+      <Footer />
+    </div>
+  );
+}
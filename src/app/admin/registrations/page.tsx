@@ -1,115 +1,59 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useState, useEffect } from "react";
+import { useSearchParams } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
-import Header from "@/components/Header";
-import Footer from "@/components/Footer";
-import api from "@/lib/api";
+import WaitlistManager from "@/components/WaitlistManager";
+import * as client from "@/lib/client";
+import { Registration } from "@/types";
+import { cn, getStatusColor, getErrorMessage } from "@/lib/utils";
 import { toast } from "react-hot-toast";
+import { can } from "@/lib/permissions";
 
-interface Registration {
-  _id: string;
-  personalInfo: {
-    firstName: string;
-    lastName: string;
-    email: string;
-    phone: string;
-    dateOfBirth: string;
-    address: {
-      street: string;
-      city: string;
-      state: string;
-      zipCode: string;
-      country: string;
-    };
-  };
-  emergencyContact: {
-    name: string;
-    relationship: string;
-    phone: string;
-  };
-  vehicleInfo: {
-    make: string;
-    model: string;
-    year: number;
-    modifications?: string;
-  };
-  medicalInfo: {
-    conditions?: string;
-    medications?: string;
-    allergies?: string;
-    insuranceProvider?: string;
-    insuranceNumber?: string;
-  };
-  experienceLevel: "Beginner" | "Intermediate" | "Advanced" | "Expert";
-  specialRequests?: string;
-  status: "pending" | "approved" | "rejected";
-  event: {
-    _id: string;
-    title: string;
-    date: string;
-  };
-  user: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  createdAt: string;
-  updatedAt: string;
-}
+type RegistrationsTab = "registrations" | "waitlist";
 
 export default function AdminRegistrationsPage() {
-  const { user, isLoading } = useAuth();
-  const router = useRouter();
+  return (
+    <Suspense>
+      <AdminRegistrations />
+    </Suspense>
+  );
+}
+
+// Linked per event from the events page, so the event and tab can come in
+// through the query string
+function AdminRegistrations() {
+  const { user } = useAuth();
+  const searchParams = useSearchParams();
+  const canUpdate = can(user, "update", "registrations");
+  const [tab, setTab] = useState<RegistrationsTab>(
+    searchParams.get("tab") === "waitlist" ? "waitlist" : "registrations"
+  );
   const [registrations, setRegistrations] = useState<Registration[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [selectedRegistration, setSelectedRegistration] =
     useState<Registration | null>(null);
   const [filters, setFilters] = useState({
     status: "",
-    event: "",
+    event: searchParams.get("event") ?? "",
     search: "",
   });
+  const showWaitlist = tab === "waitlist" && filters.event !== "";
 
   useEffect(() => {
-    if (!isLoading && (!user || user.role !== "admin")) {
-      router.push("/signin");
-      return;
-    }
-
-    if (user && user.role === "admin") {
-      fetchRegistrations();
-    }
-  }, [user, isLoading, router, filters]);
-
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
-      </div>
-    );
-  }
-
-  if (!user || user.role !== "admin") {
-    return null;
-  }
+    fetchRegistrations();
+  }, [filters]);
 
   const fetchRegistrations = async () => {
     try {
       setLoading(true);
-      const params = new URLSearchParams();
-      if (filters.status) params.append("status", filters.status);
-      if (filters.event) params.append("event", filters.event);
-      if (filters.search) params.append("search", filters.search);
-
-      const response = await api.get(
-        `/admin/registrations?${params.toString()}`
-      );
-      setRegistrations(response.data.registrations || []);
-    } catch (error) {
+      setRegistrations(await client.admin.registrations.list(filters));
+      setError(null);
+    } catch (err) {
       toast.error("Failed to fetch registrations");
-      console.error("Error fetching registrations:", error);
+      console.error("Error fetching registrations:", err);
+      setError(getErrorMessage(err, "Failed to fetch registrations"));
     } finally {
       setLoading(false);
     }
@@ -120,8 +64,8 @@ export default function AdminRegistrationsPage() {
     newStatus: string
   ) => {
     try {
-      await api.patch(`/admin/registrations/${registrationId}`, {
-        status: newStatus,
+      await client.admin.registrations.update(registrationId, {
+        status: newStatus as Registration["registrationStatus"],
       });
       toast.success("Registration status updated successfully");
       fetchRegistrations();
@@ -131,24 +75,13 @@ export default function AdminRegistrationsPage() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "approved":
-        return "bg-green-100 text-green-800";
-      case "rejected":
-        return "bg-red-100 text-red-800";
-      default:
-        return "bg-yellow-100 text-yellow-800";
-    }
-  };
-
   const getExperienceColor = (level: string) => {
     switch (level) {
       case "Beginner":
         return "bg-green-100 text-green-800";
-      case "Intermediate":
+      case "Some Experience":
         return "bg-yellow-100 text-yellow-800";
-      case "Advanced":
+      case "Experienced":
         return "bg-orange-100 text-orange-800";
       case "Expert":
         return "bg-red-100 text-red-800";
@@ -159,24 +92,17 @@ export default function AdminRegistrationsPage() {
 
   if (loading) {
     return (
-      <div className="min-h-screen flex flex-col">
-        <Header />
-        <div className="flex-1 flex items-center justify-center">
+      <div className="flex items-center justify-center py-24">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600 mx-auto"></div>
             <p className="mt-4 text-gray-600">Loading registrations...</p>
           </div>
         </div>
-        <Footer />
-      </div>
     );
   }
 
   return (
-    <div className="min-h-screen flex flex-col">
-      <Header />
-
-      <main className="flex-1 bg-gray-50">
+    <>
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           {/* Header */}
           <div className="mb-8">
@@ -227,8 +153,9 @@ export default function AdminRegistrationsPage() {
                 >
                   <option value="">All Statuses</option>
                   <option value="pending">Pending</option>
-                  <option value="approved">Approved</option>
-                  <option value="rejected">Rejected</option>
+                  <option value="confirmed">Confirmed</option>
+                  <option value="cancelled">Cancelled</option>
+                  <option value="completed">Completed</option>
                 </select>
               </div>
               <div>
@@ -247,6 +174,11 @@ export default function AdminRegistrationsPage() {
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
                 >
                   <option value="">All Events</option>
+                  {/* Linked events may have no registrations to name them */}
+                  {filters.event &&
+                    !registrations.some((r) => r.event._id === filters.event) && (
+                      <option value={filters.event}>Selected event</option>
+                    )}
                   {Array.from(
                     new Set(registrations.map((r) => r.event._id))
                   ).map((eventId) => {
@@ -264,9 +196,39 @@ export default function AdminRegistrationsPage() {
             </div>
           </div>
 
+          {/* A waitlist belongs to one event, so its tab needs one picked */}
+          {filters.event && (
+            <div className="flex space-x-6 border-b mb-8">
+              {(["registrations", "waitlist"] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setTab(value)}
+                  aria-pressed={tab === value}
+                  className={cn(
+                    "py-3 text-sm font-medium border-b-2 capitalize",
+                    tab === value
+                      ? "border-orange-600 text-orange-600"
+                      : "border-transparent text-gray-600 hover:text-orange-600"
+                  )}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {showWaitlist && <WaitlistManager eventId={filters.event} />}
+
+          {!showWaitlist && error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-8">
+              <p className="text-red-800">{error}</p>
+            </div>
+          )}
+
           {/* Registrations List */}
-          <div className="space-y-4">
-            {registrations.length === 0 ? (
+          <div className={cn("space-y-4", showWaitlist && "hidden")}>
+            {error ? null : registrations.length === 0 ? (
               <div className="text-center py-12">
                 <p className="text-gray-500 text-lg">No registrations found</p>
                 <p className="text-gray-400 mt-2">
@@ -283,22 +245,21 @@ export default function AdminRegistrationsPage() {
                     <div className="flex-1">
                       <div className="flex items-center space-x-3 mb-2">
                         <h3 className="text-lg font-bold text-gray-900">
-                          {registration.personalInfo.firstName}{" "}
-                          {registration.personalInfo.lastName}
+                          {registration.participantDetails.name}
                         </h3>
                         <span
                           className={`px-2 py-1 text-xs rounded-full ${getStatusColor(
-                            registration.status
+                            registration.registrationStatus
                           )}`}
                         >
-                          {registration.status}
+                          {registration.registrationStatus}
                         </span>
                         <span
                           className={`px-2 py-1 text-xs rounded-full ${getExperienceColor(
-                            registration.experienceLevel
+                            registration.participantDetails.experience
                           )}`}
                         >
-                          {registration.experienceLevel}
+                          {registration.participantDetails.experience}
                         </span>
                       </div>
 
@@ -316,7 +277,7 @@ export default function AdminRegistrationsPage() {
                             Email:
                           </span>
                           <p className="text-gray-600">
-                            {registration.personalInfo.email}
+                            {registration.participantDetails.email}
                           </p>
                         </div>
                         <div>
@@ -324,7 +285,7 @@ export default function AdminRegistrationsPage() {
                             Phone:
                           </span>
                           <p className="text-gray-600">
-                            {registration.personalInfo.phone}
+                            {registration.participantDetails.phone}
                           </p>
                         </div>
                         <div>
@@ -332,9 +293,9 @@ export default function AdminRegistrationsPage() {
                             Vehicle:
                           </span>
                           <p className="text-gray-600">
-                            {registration.vehicleInfo.year}{" "}
-                            {registration.vehicleInfo.make}{" "}
-                            {registration.vehicleInfo.model}
+                            {registration.participantDetails.vehicleDetails.year}{" "}
+                            {registration.participantDetails.vehicleDetails.make}{" "}
+                            {registration.participantDetails.vehicleDetails.model}
                           </p>
                         </div>
                       </div>
@@ -355,13 +316,13 @@ export default function AdminRegistrationsPage() {
                         View Details
                       </button>
 
-                      {registration.status === "pending" && (
+                      {canUpdate && registration.registrationStatus === "pending" && (
                         <>
                           <button
                             onClick={() =>
                               updateRegistrationStatus(
                                 registration._id,
-                                "approved"
+                                "confirmed"
                               )
                             }
                             className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700"
@@ -372,7 +333,7 @@ export default function AdminRegistrationsPage() {
                             onClick={() =>
                               updateRegistrationStatus(
                                 registration._id,
-                                "rejected"
+                                "cancelled"
                               )
                             }
                             className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700"
@@ -382,20 +343,22 @@ export default function AdminRegistrationsPage() {
                         </>
                       )}
 
-                      {registration.status !== "pending" && (
+                      {registration.registrationStatus !== "pending" && (
                         <select
-                          value={registration.status}
+                          value={registration.registrationStatus}
+                          disabled={!canUpdate}
                           onChange={(e) =>
                             updateRegistrationStatus(
                               registration._id,
                               e.target.value
                             )
                           }
-                          className="text-sm px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+                          className="text-sm px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 disabled:bg-gray-100 disabled:text-gray-500"
                         >
                           <option value="pending">Pending</option>
-                          <option value="approved">Approved</option>
-                          <option value="rejected">Rejected</option>
+                          <option value="confirmed">Confirmed</option>
+                          <option value="cancelled">Cancelled</option>
+                          <option value="completed">Completed</option>
                         </select>
                       )}
                     </div>
@@ -405,7 +368,6 @@ export default function AdminRegistrationsPage() {
             )}
           </div>
         </div>
-      </main>
 
       {/* Registration Details Modal */}
       {selectedRegistration && (
@@ -433,34 +395,15 @@ export default function AdminRegistrationsPage() {
                   <div className="space-y-2 text-sm">
                     <div>
                       <span className="font-medium">Name:</span>{" "}
-                      {selectedRegistration.personalInfo.firstName}{" "}
-                      {selectedRegistration.personalInfo.lastName}
+                      {selectedRegistration.participantDetails.name}
                     </div>
                     <div>
                       <span className="font-medium">Email:</span>{" "}
-                      {selectedRegistration.personalInfo.email}
+                      {selectedRegistration.participantDetails.email}
                     </div>
                     <div>
                       <span className="font-medium">Phone:</span>{" "}
-                      {selectedRegistration.personalInfo.phone}
-                    </div>
-                    <div>
-                      <span className="font-medium">Date of Birth:</span>{" "}
-                      {new Date(
-                        selectedRegistration.personalInfo.dateOfBirth
-                      ).toLocaleDateString()}
-                    </div>
-                    <div>
-                      <span className="font-medium">Address:</span>
-                      <div className="ml-4">
-                        {selectedRegistration.personalInfo.address.street}
-                        <br />
-                        {selectedRegistration.personalInfo.address.city},{" "}
-                        {selectedRegistration.personalInfo.address.state}{" "}
-                        {selectedRegistration.personalInfo.address.zipCode}
-                        <br />
-                        {selectedRegistration.personalInfo.address.country}
-                      </div>
+                      {selectedRegistration.participantDetails.phone}
                     </div>
                   </div>
                 </div>
@@ -473,15 +416,24 @@ export default function AdminRegistrationsPage() {
                   <div className="space-y-2 text-sm">
                     <div>
                       <span className="font-medium">Name:</span>{" "}
-                      {selectedRegistration.emergencyContact.name}
+                      {
+                        selectedRegistration.participantDetails.emergencyContact
+                          .name
+                      }
                     </div>
                     <div>
                       <span className="font-medium">Relationship:</span>{" "}
-                      {selectedRegistration.emergencyContact.relationship}
+                      {
+                        selectedRegistration.participantDetails.emergencyContact
+                          .relationship
+                      }
                     </div>
                     <div>
                       <span className="font-medium">Phone:</span>{" "}
-                      {selectedRegistration.emergencyContact.phone}
+                      {
+                        selectedRegistration.participantDetails.emergencyContact
+                          .phone
+                      }
                     </div>
                   </div>
                 </div>
@@ -494,14 +446,18 @@ export default function AdminRegistrationsPage() {
                   <div className="space-y-2 text-sm">
                     <div>
                       <span className="font-medium">Vehicle:</span>{" "}
-                      {selectedRegistration.vehicleInfo.year}{" "}
-                      {selectedRegistration.vehicleInfo.make}{" "}
-                      {selectedRegistration.vehicleInfo.model}
+                      {selectedRegistration.participantDetails.vehicleDetails.year}{" "}
+                      {selectedRegistration.participantDetails.vehicleDetails.make}{" "}
+                      {selectedRegistration.participantDetails.vehicleDetails.model}
                     </div>
-                    {selectedRegistration.vehicleInfo.modifications && (
+                    {selectedRegistration.participantDetails.vehicleDetails
+                      .modifications && (
                       <div>
                         <span className="font-medium">Modifications:</span>{" "}
-                        {selectedRegistration.vehicleInfo.modifications}
+                        {
+                          selectedRegistration.participantDetails.vehicleDetails
+                            .modifications
+                        }
                       </div>
                     )}
                   </div>
@@ -513,32 +469,11 @@ export default function AdminRegistrationsPage() {
                     Medical Information
                   </h3>
                   <div className="space-y-2 text-sm">
-                    {selectedRegistration.medicalInfo.conditions && (
-                      <div>
-                        <span className="font-medium">Medical Conditions:</span>{" "}
-                        {selectedRegistration.medicalInfo.conditions}
-                      </div>
-                    )}
-                    {selectedRegistration.medicalInfo.medications && (
-                      <div>
-                        <span className="font-medium">Medications:</span>{" "}
-                        {selectedRegistration.medicalInfo.medications}
-                      </div>
-                    )}
-                    {selectedRegistration.medicalInfo.allergies && (
-                      <div>
-                        <span className="font-medium">Allergies:</span>{" "}
-                        {selectedRegistration.medicalInfo.allergies}
-                      </div>
-                    )}
-                    {selectedRegistration.medicalInfo.insuranceProvider && (
-                      <div>
-                        <span className="font-medium">Insurance:</span>{" "}
-                        {selectedRegistration.medicalInfo.insuranceProvider}
-                        {selectedRegistration.medicalInfo.insuranceNumber &&
-                          ` - ${selectedRegistration.medicalInfo.insuranceNumber}`}
-                      </div>
-                    )}
+                    <div>
+                      <span className="font-medium">Medical Conditions:</span>{" "}
+                      {selectedRegistration.participantDetails.medicalConditions ||
+                        "None reported"}
+                    </div>
                   </div>
                 </div>
 
@@ -550,18 +485,22 @@ export default function AdminRegistrationsPage() {
                   <div className="space-y-2 text-sm">
                     <div>
                       <span className="font-medium">Experience Level:</span>{" "}
-                      {selectedRegistration.experienceLevel}
+                      {selectedRegistration.participantDetails.experience}
                     </div>
-                    {selectedRegistration.specialRequests && (
+                    {selectedRegistration.participantDetails.additionalNotes && (
                       <div>
-                        <span className="font-medium">Special Requests:</span>{" "}
-                        {selectedRegistration.specialRequests}
+                        <span className="font-medium">Additional Notes:</span>{" "}
+                        {selectedRegistration.participantDetails.additionalNotes}
                       </div>
                     )}
                     <div>
                       <span className="font-medium">Event:</span>{" "}
                       {selectedRegistration.event.title}
                     </div>
+                    <div>
+                      <span className="font-medium">Payment:</span>{" "}
+                      {selectedRegistration.paymentStatus}
+                    </div>
                     <div>
                       <span className="font-medium">Registration Date:</span>{" "}
                       {new Date(
@@ -577,13 +516,14 @@ export default function AdminRegistrationsPage() {
               </div>
 
               <div className="flex justify-end space-x-3 mt-6 pt-4 border-t">
-                {selectedRegistration.status === "pending" && (
+                {canUpdate &&
+                  selectedRegistration.registrationStatus === "pending" && (
                   <>
                     <button
                       onClick={() => {
                         updateRegistrationStatus(
                           selectedRegistration._id,
-                          "approved"
+                          "confirmed"
                         );
                         setSelectedRegistration(null);
                       }}
@@ -595,7 +535,7 @@ export default function AdminRegistrationsPage() {
                       onClick={() => {
                         updateRegistrationStatus(
                           selectedRegistration._id,
-                          "rejected"
+                          "cancelled"
                         );
                         setSelectedRegistration(null);
                       }}
@@ -616,8 +556,6 @@ export default function AdminRegistrationsPage() {
           </div>
         </div>
       )}
-
-      <Footer />
-    </div>
+    </>
   );
 }
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { callUpstream } from '@/lib/bff/upstream';
+import {
+  clearSession,
+  readSession,
+  refreshSession,
+  rejectCrossSite,
+  StoredSession,
+  toSessionInfo,
+  writeSession,
+} from '@/lib/bff/session';
+import { authResponseDecoder, userDecoder } from '@/lib/decoders';
+import { decodeToken, isTokenExpired } from '@/lib/jwt';
+import { decode } from '@/lib/schema';
+
+// Responses that carry new tokens; they go into cookies, not to the page
+const TOKEN_ENDPOINTS = [
+  '/auth/login',
+  '/auth/login/2fa',
+  '/auth/register',
+  '/auth/invites/accept',
+];
+
+// A 401 from these means bad credentials, not an expired session
+function isAuthEndpoint(path: string) {
+  return path.startsWith('/auth/');
+}
+
+function isSuccess(status: number) {
+  return status >= 200 && status < 300;
+}
+
+function hasToken(data: unknown): boolean {
+  return typeof (data as { token?: unknown } | null)?.token === 'string';
+}
+
+// The signed-in user as returned by account endpoints, to keep the cached
+// copy in the user cookie current
+function currentUserIn(data: unknown, session: StoredSession) {
+  const user = (data as { user?: unknown } | null)?.user;
+  if (!session.user || !user) return null;
+  try {
+    const decoded = decode(userDecoder, user, 'user');
+    return decoded.id === session.user.id ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+async function proxy(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const blocked = rejectCrossSite(request);
+  if (blocked) return blocked;
+
+  const { path: segments } = await params;
+  const path = `/${segments.map(encodeURIComponent).join('/')}`;
+  const hasBody = !['GET', 'HEAD'].includes(request.method);
+  const body = hasBody ? await request.arrayBuffer() : null;
+  const userAgent = request.headers.get('user-agent') || '';
+
+  let session = readSession(request);
+  let rotated = false;
+  let ended = false;
+
+  const send = () =>
+    callUpstream({
+      method: request.method,
+      path,
+      search: request.nextUrl.search,
+      contentType: request.headers.get('content-type'),
+      body,
+      token: session.token,
+      userAgent,
+    });
+
+  const refresh = async () => {
+    const next = await refreshSession(session, userAgent);
+    if (next) {
+      session = next;
+      rotated = true;
+    } else {
+      session = { token: null, refreshToken: null, user: null };
+      ended = true;
+    }
+    return Boolean(next);
+  };
+
+  // Refresh ahead of time rather than spending a request on a certain 401
+  if (
+    session.refreshToken &&
+    !isAuthEndpoint(path) &&
+    (!session.token || isTokenExpired(decodeToken(session.token)))
+  ) {
+    await refresh();
+  }
+
+  let result = await send();
+  if (
+    result.status === 401 &&
+    !isAuthEndpoint(path) &&
+    !rotated &&
+    session.refreshToken &&
+    (await refresh())
+  ) {
+    result = await send();
+  }
+
+  if (
+    TOKEN_ENDPOINTS.includes(path) &&
+    isSuccess(result.status) &&
+    hasToken(result.data)
+  ) {
+    let auth;
+    try {
+      auth = decode(authResponseDecoder, result.data, 'auth');
+    } catch {
+      return NextResponse.json(
+        { message: 'The server returned an unexpected response' },
+        { status: 502 }
+      );
+    }
+    const signedIn: StoredSession = {
+      token: auth.token,
+      refreshToken: auth.refreshToken ?? null,
+      user: auth.user,
+    };
+    const response = NextResponse.json(toSessionInfo(signedIn), {
+      status: result.status,
+    });
+    // A new sign-in replaces whatever session this browser had
+    clearSession(response);
+    writeSession(response, signedIn);
+    return response;
+  }
+
+  const response = NextResponse.json(result.data, { status: result.status });
+  const updatedUser = isSuccess(result.status)
+    ? currentUserIn(result.data, session)
+    : null;
+  if (updatedUser) session = { ...session, user: updatedUser };
+
+  if (ended || (result.status === 401 && !isAuthEndpoint(path))) {
+    clearSession(response);
+  } else if (rotated || updatedUser) {
+    writeSession(response, session);
+  }
+  return response;
+}
+
+export {
+  proxy as GET,
+  proxy as POST,
+  proxy as PUT,
+  proxy as PATCH,
+  proxy as DELETE,
+};
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  fetchActiveEvents,
+  fetchEvent,
+  fetchMemberRegistrations,
+} from '@/lib/bff/events';
+import { readSession } from '@/lib/bff/session';
+import { decodeToken, isTokenExpired } from '@/lib/jwt';
+import { recommendEvents, RiderHistory } from '@/lib/recommendations';
+import { Event } from '@/types';
+
+const DEFAULT_LIMIT = 4;
+const MAX_LIMIT = 12;
+
+// Past events aren't in the active list and are fetched one by one, so only
+// the most recent ones shape the ranking
+const HISTORY_LOOKUPS = 10;
+
+function parseLimit(value: string | null): number {
+  const parsed = Number(value);
+  if (!value || !Number.isInteger(parsed) || parsed < 0) return DEFAULT_LIMIT;
+  return Math.min(parsed, MAX_LIMIT);
+}
+
+// Ranking the member's history is a bonus: without a live session, or when
+// their registrations can't be read, the suggestions are just less personal
+async function riderHistory(
+  request: NextRequest,
+  userAgent: string,
+  activeEvents: Event[]
+): Promise<RiderHistory | null> {
+  const { token } = readSession(request);
+  if (!token || isTokenExpired(decodeToken(token))) return null;
+  try {
+    const registrations = (
+      await fetchMemberRegistrations(token, userAgent)
+    ).filter((item) => item.registrationStatus !== 'cancelled');
+    const active = new Map(activeEvents.map((event) => [event._id, event]));
+    const upcoming = registrations.flatMap(
+      (item) => active.get(item.event._id) ?? []
+    );
+    const past = await Promise.all(
+      registrations
+        .filter((item) => !active.has(item.event._id))
+        .slice(0, HISTORY_LOOKUPS)
+        .map((item) => fetchEvent(item.event._id, userAgent))
+    );
+    return {
+      events: [
+        ...upcoming,
+        ...past.filter((event): event is Event => event !== null),
+      ],
+      experience: registrations[0]?.participantDetails.experience,
+    };
+  } catch (error) {
+    console.error('Failed to load registrations for suggestions:', error);
+    return null;
+  }
+}
+
+// "You might also like": ranked here from the active events, so it works
+// against any API that lists them
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const userAgent = request.headers.get('user-agent') || '';
+  let event;
+  let candidates;
+  try {
+    [event, candidates] = await Promise.all([
+      fetchEvent(id, userAgent),
+      fetchActiveEvents({}, userAgent),
+    ]);
+  } catch (error) {
+    console.error('Failed to load events for suggestions:', error);
+    return NextResponse.json(
+      { message: 'Could not load suggestions, please try again later' },
+      { status: 502 }
+    );
+  }
+  if (!event) {
+    return NextResponse.json({ message: 'Event not found' }, { status: 404 });
+  }
+
+  const history = await riderHistory(request, userAgent, candidates);
+  const limit = parseLimit(request.nextUrl.searchParams.get('limit'));
+  return NextResponse.json({
+    events: recommendEvents(event, candidates, history, limit),
+  });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  clearSession,
+  readSession,
+  refreshSession,
+  rejectCrossSite,
+  toSessionInfo,
+  writeSession,
+} from '@/lib/bff/session';
+
+// Extends the session on request, e.g. from the "stay signed in" prompt
+export async function POST(request: NextRequest) {
+  const blocked = rejectCrossSite(request);
+  if (blocked) return blocked;
+
+  const session = await refreshSession(
+    readSession(request),
+    request.headers.get('user-agent') || ''
+  );
+  if (!session) {
+    const response = NextResponse.json(
+      { message: 'Session expired, please sign in again' },
+      { status: 401 }
+    );
+    clearSession(response);
+    return response;
+  }
+
+  const response = NextResponse.json(toSessionInfo(session));
+  writeSession(response, session);
+  return response;
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { callUpstream, jsonBody } from '@/lib/bff/upstream';
+import {
+  clearSession,
+  ensureCsrfCookie,
+  readSession,
+  rejectCrossSite,
+  toSessionInfo,
+} from '@/lib/bff/session';
+
+// What AuthProvider knows about the signed-in user; the tokens themselves
+// stay in httpOnly cookies
+export async function GET(request: NextRequest) {
+  const session = readSession(request);
+  const info = toSessionInfo(session);
+  const response = NextResponse.json(info, {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+  if (!info.user && (session.token || session.refreshToken || session.user)) {
+    clearSession(response);
+  }
+  ensureCsrfCookie(request, response);
+  return response;
+}
+
+// Sign out: end the session upstream, then drop the cookies regardless
+export async function DELETE(request: NextRequest) {
+  const blocked = rejectCrossSite(request);
+  if (blocked) return blocked;
+
+  const { refreshToken } = readSession(request);
+  if (refreshToken) {
+    await callUpstream({
+      method: 'POST',
+      path: '/auth/logout',
+      search: '',
+      ...jsonBody({ refreshToken }),
+      token: null,
+      userAgent: request.headers.get('user-agent') || '',
+    });
+  }
+
+  const response = NextResponse.json({ message: 'Signed out' });
+  clearSession(response);
+  return response;
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+import { useForm } from "react-hook-form";
+
+interface ForgotPasswordFormData {
+  email: string;
+}
+
+// Pause between resends; the backend also rate limits reset requests
+const RESEND_COOLDOWN_SECONDS = 60;
+
+export default function ForgotPasswordPage() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [cooldown, setCooldown] = useState(0);
+  const { requestPasswordReset } = useAuth();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>();
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown((value) => value - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const sendLink = async (email: string) => {
+    setIsLoading(true);
+    try {
+      await requestPasswordReset(email);
+      setSentTo(email);
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+    } catch (error) {
+      // Error is handled in AuthContext
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onSubmit = (data: ForgotPasswordFormData) => sendLink(data.email);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Reset your password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Enter the email you signed up with and we&apos;ll send you a link
+            to choose a new password.
+          </p>
+        </div>
+
+        {sentTo ? (
+          <div className="mt-8 space-y-6">
+            <div className="bg-green-50 border border-green-200 rounded-md p-4">
+              <p className="text-green-800">
+                If an account exists for <strong>{sentTo}</strong>, a reset
+                link is on its way. The link expires in 30 minutes and can
+                only be used once.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => sendLink(sentTo)}
+              disabled={isLoading || cooldown > 0}
+              className="group relative w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading
+                ? "Sending..."
+                : cooldown > 0
+                ? `Resend link in ${cooldown}s`
+                : "Resend link"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setSentTo(null)}
+              className="w-full text-sm font-medium text-orange-600 hover:text-orange-500"
+            >
+              Use a different email
+            </button>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div>
+              <label
+                htmlFor="email"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Email address
+              </label>
+              <input
+                {...register("email", {
+                  required: "Email is required",
+                  pattern: {
+                    value: /^\S+@\S+$/i,
+                    message: "Invalid email address",
+                  },
+                })}
+                type="email"
+                autoComplete="email"
+                className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 focus:z-10 sm:text-sm"
+                placeholder="Enter your email"
+              />
+              {errors.email && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.email.message}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                disabled={isLoading || cooldown > 0}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? "Sending..." : "Send reset link"}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="text-center">
+          <Link
+            href="/auth/signin"
+            className="font-medium text-orange-600 hover:text-orange-500"
+          >
+            ← Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
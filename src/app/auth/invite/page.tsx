@@ -0,0 +1,268 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { useForm } from "react-hook-form";
+import * as client from "@/lib/client";
+import { getErrorMessage, getErrorStatus } from "@/lib/utils";
+import { ROLE_LABELS } from "@/lib/permissions";
+import { InviteDetails } from "@/types";
+
+interface AcceptInviteFormData {
+  name: string;
+  phone: string;
+  password: string;
+  confirmPassword: string;
+}
+
+type InviteStatus = "checking" | "valid" | "expired" | "invalid";
+
+export default function AcceptInvitePage() {
+  return (
+    <Suspense>
+      <AcceptInviteForm />
+    </Suspense>
+  );
+}
+
+function AcceptInviteForm() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [status, setStatus] = useState<InviteStatus>("checking");
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { acceptInvite } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<AcceptInviteFormData>();
+
+  const password = watch("password");
+
+  const checkInvite = async (inviteToken: string) => {
+    try {
+      const details = await client.auth.getInvite(inviteToken);
+      setInvite(details);
+      setStatus("valid");
+      setError(null);
+      return details;
+    } catch (err) {
+      setStatus(getErrorStatus(err) === 410 ? "expired" : "invalid");
+      setError(getErrorMessage(err, "Could not verify the invite link"));
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    if (!token) {
+      setStatus("invalid");
+      return;
+    }
+    setStatus("checking");
+    checkInvite(token).then((details) => {
+      if (details?.name) reset({ name: details.name });
+    });
+  }, [token]);
+
+  const onSubmit = async (data: AcceptInviteFormData) => {
+    if (!token) return;
+    setIsLoading(true);
+    try {
+      await acceptInvite({
+        token,
+        name: data.name,
+        phone: data.phone,
+        password: data.password,
+      });
+      router.push("/admin");
+    } catch (err) {
+      // The invite may have been revoked or expired while the form was open
+      await checkInvite(token);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (status === "checking") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {status === "valid"
+              ? "Join the team"
+              : status === "expired"
+              ? "This invite has expired"
+              : "This invite is invalid"}
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {status === "valid" && invite
+              ? `You have been invited as ${
+                  ROLE_LABELS[invite.role]
+                }. Set up your account to get started.`
+              : error ||
+                "The link is incomplete or has already been used. Ask an administrator for a new invite."}
+          </p>
+        </div>
+
+        {status === "valid" && invite ? (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="email"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Email Address
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  value={invite.email}
+                  readOnly
+                  className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-200 bg-gray-50 text-gray-700 rounded-md sm:text-sm"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="name"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Full Name
+                </label>
+                <input
+                  {...register("name", {
+                    required: "Name is required",
+                    minLength: {
+                      value: 2,
+                      message: "Name must be at least 2 characters",
+                    },
+                  })}
+                  type="text"
+                  autoComplete="name"
+                  className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 focus:z-10 sm:text-sm"
+                  placeholder="Enter your full name"
+                />
+                {errors.name && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.name.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label
+                  htmlFor="phone"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Phone Number
+                </label>
+                <input
+                  {...register("phone", {
+                    required: "Phone number is required",
+                  })}
+                  type="tel"
+                  autoComplete="tel"
+                  className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 focus:z-10 sm:text-sm"
+                  placeholder="Enter your phone number"
+                />
+                {errors.phone && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.phone.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Password
+                </label>
+                <input
+                  {...register("password", {
+                    required: "Password is required",
+                    minLength: {
+                      value: 6,
+                      message: "Password must be at least 6 characters",
+                    },
+                  })}
+                  type="password"
+                  autoComplete="new-password"
+                  className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 focus:z-10 sm:text-sm"
+                  placeholder="Choose a password"
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.password.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label
+                  htmlFor="confirmPassword"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Confirm Password
+                </label>
+                <input
+                  {...register("confirmPassword", {
+                    required: "Please confirm your password",
+                    validate: (value) =>
+                      value === password || "Passwords do not match",
+                  })}
+                  type="password"
+                  autoComplete="new-password"
+                  className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 focus:z-10 sm:text-sm"
+                  placeholder="Confirm your password"
+                />
+                {errors.confirmPassword && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.confirmPassword.message}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? "Creating account..." : "Accept invite"}
+              </button>
+            </div>
+          </form>
+        ) : null}
+
+        <div className="text-center">
+          <Link
+            href="/auth/signin"
+            className="font-medium text-orange-600 hover:text-orange-500"
+          >
+            ← Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { useForm } from "react-hook-form";
+import * as client from "@/lib/client";
+import { getErrorMessage } from "@/lib/utils";
+import { ResetTokenStatus } from "@/types";
+
+interface ResetPasswordFormData {
+  password: string;
+  confirmPassword: string;
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense>
+      <ResetPasswordForm />
+    </Suspense>
+  );
+}
+
+function ResetPasswordForm() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [status, setStatus] = useState<ResetTokenStatus | "checking">(
+    "checking"
+  );
+  const [error, setError] = useState<string | null>(null);
+  const { resetPassword } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>();
+
+  const password = watch("password");
+
+  useEffect(() => {
+    if (!token) {
+      setStatus("invalid");
+      return;
+    }
+    setStatus("checking");
+    client.auth
+      .checkResetToken(token)
+      .then((result) => {
+        setStatus(result);
+        setError(null);
+      })
+      .catch((err) => {
+        setStatus("invalid");
+        setError(getErrorMessage(err, "Could not verify the reset link"));
+      });
+  }, [token]);
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    if (!token) return;
+    setIsLoading(true);
+    try {
+      await resetPassword(token, data.password);
+      router.push("/auth/signin");
+    } catch (err) {
+      // The link may have expired while the form was open
+      setStatus(
+        await client.auth
+          .checkResetToken(token)
+          .catch((): ResetTokenStatus => "valid")
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (status === "checking") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {status === "valid"
+              ? "Choose a new password"
+              : status === "expired"
+              ? "This reset link has expired"
+              : "This reset link is invalid"}
+          </h2>
+          {status !== "valid" && (
+            <p className="mt-2 text-center text-sm text-gray-600">
+              {error ||
+                (status === "expired"
+                  ? "Reset links are only valid for 30 minutes. Request a new one to continue."
+                  : "The link is incomplete or has already been used. Request a new one to continue.")}
+            </p>
+          )}
+        </div>
+
+        {status === "valid" ? (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  New Password
+                </label>
+                <input
+                  {...register("password", {
+                    required: "Password is required",
+                    minLength: {
+                      value: 6,
+                      message: "Password must be at least 6 characters",
+                    },
+                  })}
+                  type="password"
+                  autoComplete="new-password"
+                  className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 focus:z-10 sm:text-sm"
+                  placeholder="Enter a new password"
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.password.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label
+                  htmlFor="confirmPassword"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Confirm Password
+                </label>
+                <input
+                  {...register("confirmPassword", {
+                    required: "Please confirm your password",
+                    validate: (value) =>
+                      value === password || "Passwords do not match",
+                  })}
+                  type="password"
+                  autoComplete="new-password"
+                  className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 focus:z-10 sm:text-sm"
+                  placeholder="Confirm your new password"
+                />
+                {errors.confirmPassword && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.confirmPassword.message}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? "Updating password..." : "Update password"}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <Link
+            href="/auth/forgot-password"
+            className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-orange-600 hover:bg-orange-700"
+          >
+            Request a new link
+          </Link>
+        )}
+
+        <div className="text-center">
+          <Link
+            href="/auth/signin"
+            className="font-medium text-orange-600 hover:text-orange-500"
+          >
+            ← Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,37 @@
 "use client";
 
-import { useState } from "react";
+import { Suspense, useState } from "react";
 import Link from "next/link";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
 import { useForm } from "react-hook-form";
-import toast from "react-hot-toast";
+import { getErrorStatus, safeReturnTo } from "@/lib/utils";
+import { TwoFactorMethod } from "@/types";
 
 interface SignInFormData {
   email: string;
   password: string;
 }
 
+interface TwoFactorFormData {
+  code: string;
+}
+
 export default function SignInPage() {
+  return (
+    <Suspense>
+      <SignInForm />
+    </Suspense>
+  );
+}
+
+function SignInForm() {
   const [isLoading, setIsLoading] = useState(false);
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
   const { login } = useAuth();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const returnTo = safeReturnTo(searchParams.get("returnTo"));
 
   const {
     register,
@@ -26,8 +42,12 @@ export default function SignInPage() {
   const onSubmit = async (data: SignInFormData) => {
     setIsLoading(true);
     try {
-      await login(data.email, data.password);
-      router.push("/");
+      const result = await login(data.email, data.password);
+      if (result === "two-factor-required") {
+        setNeedsTwoFactor(true);
+        return;
+      }
+      router.push(returnTo || "/");
     } catch (error) {
       // Error is handled in AuthContext
     } finally {
@@ -35,6 +55,15 @@ export default function SignInPage() {
     }
   };
 
+  if (needsTwoFactor) {
+    return (
+      <TwoFactorForm
+        onSuccess={() => router.push(returnTo || "/")}
+        onRestart={() => setNeedsTwoFactor(false)}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -110,6 +139,15 @@ export default function SignInPage() {
             </div>
           </div>
 
+          <div className="flex justify-end">
+            <Link
+              href="/auth/forgot-password"
+              className="text-sm font-medium text-orange-600 hover:text-orange-500"
+            >
+              Forgot your password?
+            </Link>
+          </div>
+
           <div>
             <button
               type="submit"
@@ -133,3 +171,126 @@ export default function SignInPage() {
     </div>
   );
 }
+
+function TwoFactorForm({
+  onSuccess,
+  onRestart,
+}: {
+  onSuccess: () => void;
+  onRestart: () => void;
+}) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [method, setMethod] = useState<TwoFactorMethod>("totp");
+  const { verifyTwoFactor, cancelTwoFactor } = useAuth();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<TwoFactorFormData>();
+
+  const onSubmit = async (data: TwoFactorFormData) => {
+    setIsLoading(true);
+    try {
+      await verifyTwoFactor(data.code, method);
+      onSuccess();
+    } catch (error) {
+      // Error is handled in AuthContext; a 401 means the password step
+      // has to be repeated
+      if (getErrorStatus(error) === 401) onRestart();
+      reset();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const switchMethod = () => {
+    setMethod(method === "totp" ? "backup" : "totp");
+    reset();
+  };
+
+  const restart = () => {
+    cancelTwoFactor();
+    onRestart();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Two-factor authentication
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {method === "totp"
+              ? "Enter the 6-digit code from your authenticator app."
+              : "Enter one of the backup codes you saved when setting up two-factor authentication."}
+          </p>
+        </div>
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          <div>
+            <label
+              htmlFor="code"
+              className="block text-sm font-medium text-gray-700"
+            >
+              {method === "totp" ? "Authentication code" : "Backup code"}
+            </label>
+            <input
+              key={method}
+              {...register("code", {
+                required: "Code is required",
+                pattern:
+                  method === "totp"
+                    ? { value: /^\d{6}$/, message: "Enter the 6-digit code" }
+                    : {
+                        value: /^[0-9a-f]{4}-?[0-9a-f]{4}$/i,
+                        message: "Backup codes look like 1a2b-3c4d",
+                      },
+              })}
+              type="text"
+              inputMode={method === "totp" ? "numeric" : "text"}
+              autoComplete="one-time-code"
+              autoFocus
+              className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 focus:z-10 sm:text-sm tracking-widest"
+              placeholder={method === "totp" ? "123456" : "xxxx-xxxx"}
+            />
+            {errors.code && (
+              <p className="mt-1 text-sm text-red-600">{errors.code.message}</p>
+            )}
+          </div>
+
+          <div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? "Verifying..." : "Verify"}
+            </button>
+          </div>
+
+          <div className="flex justify-between text-sm">
+            <button
+              type="button"
+              onClick={switchMethod}
+              className="font-medium text-orange-600 hover:text-orange-500"
+            >
+              {method === "totp"
+                ? "Use a backup code instead"
+                : "Use your authenticator app"}
+            </button>
+            <button
+              type="button"
+              onClick={restart}
+              className="font-medium text-gray-600 hover:text-gray-500"
+            >
+              Start over
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
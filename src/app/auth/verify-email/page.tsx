@@ -0,0 +1,104 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import VerifyEmailNotice from "@/components/VerifyEmailNotice";
+import { getErrorMessage, getErrorStatus } from "@/lib/utils";
+
+type VerificationStatus = "verifying" | "verified" | "expired" | "invalid";
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense>
+      <VerifyEmail />
+    </Suspense>
+  );
+}
+
+function VerifyEmail() {
+  const [status, setStatus] = useState<VerificationStatus>("verifying");
+  const [error, setError] = useState<string | null>(null);
+  const { user, isLoading, verifyEmail } = useAuth();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  // Tokens are single use, so guard against the effect running twice
+  const attempted = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Wait for the stored session so the signed-in user gets updated too
+    if (isLoading) return;
+    if (!token) {
+      setStatus("invalid");
+      return;
+    }
+    if (attempted.current === token) return;
+    attempted.current = token;
+
+    verifyEmail(token)
+      .then(() => setStatus("verified"))
+      .catch((err) => {
+        setStatus(getErrorStatus(err) === 410 ? "expired" : "invalid");
+        setError(getErrorMessage(err, "This verification link is invalid"));
+      });
+  }, [token, isLoading, verifyEmail]);
+
+  if (status === "verifying") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Verifying your email...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {status === "verified"
+              ? "Email verified"
+              : status === "expired"
+              ? "This verification link has expired"
+              : "This verification link is invalid"}
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {status === "verified"
+              ? "Thanks! You can now register for events."
+              : error}
+          </p>
+        </div>
+
+        {status === "verified" ? (
+          <Link
+            href={user ? "/events" : "/auth/signin"}
+            className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-orange-600 hover:bg-orange-700"
+          >
+            {user ? "Browse events" : "Sign in"}
+          </Link>
+        ) : user && !user.emailVerified ? (
+          <VerifyEmailNotice message="Request a new link below and use it within 24 hours." />
+        ) : (
+          <p className="text-center text-sm text-gray-600">
+            {user
+              ? "Your email address is already verified."
+              : "Sign in to request a new verification link."}
+          </p>
+        )}
+
+        <div className="text-center">
+          <Link
+            href="/"
+            className="font-medium text-orange-600 hover:text-orange-500"
+          >
+            ← Back to home
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
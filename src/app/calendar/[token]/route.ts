@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchRegistrationFeed } from '@/lib/bff/events';
+import { toICalendar, toRegistrationEntry } from '@/lib/ical';
+
+const REFRESH_MINUTES = 30;
+
+// A member's private feed, /calendar/<token>.ics. Built on every request so
+// confirmations and cancellations show up on the next refresh.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  let feed;
+  try {
+    feed = await fetchRegistrationFeed(
+      token.replace(/\.ics$/, ''),
+      request.headers.get('user-agent') || ''
+    );
+  } catch (error) {
+    console.error('Failed to load a personal calendar feed:', error);
+    return NextResponse.json(
+      { message: 'Could not load the calendar, please try again later' },
+      { status: 502 }
+    );
+  }
+  if (!feed) {
+    return NextResponse.json({ message: 'Calendar not found' }, { status: 404 });
+  }
+
+  const origin = request.nextUrl.origin;
+  const body = toICalendar(
+    feed.entries.map((entry) => toRegistrationEntry(entry, origin)),
+    {
+      name: `Off-Road Adventures · ${feed.owner}`,
+      refreshMinutes: REFRESH_MINUTES,
+    }
+  );
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="my-offroad-events.ics"',
+      'Cache-Control': 'private, no-cache',
+      'X-Robots-Tag': 'noindex',
+    },
+  });
+}
@@ -5,15 +5,8 @@ import { useForm } from "react-hook-form";
 import { toast } from "react-hot-toast";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
-import api from "@/lib/api";
-
-interface ContactFormData {
-  name: string;
-  email: string;
-  phone: string;
-  subject: string;
-  message: string;
-}
+import * as client from "@/lib/client";
+import { ContactFormData } from "@/types";
 
 export default function ContactPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -28,7 +21,7 @@ export default function ContactPage() {
   const onSubmit = async (data: ContactFormData) => {
     try {
       setIsSubmitting(true);
-      await api.post("/contact", data);
+      await client.contacts.create(data);
       toast.success("Message sent successfully! We'll get back to you soon.");
       reset();
     } catch (error: any) {
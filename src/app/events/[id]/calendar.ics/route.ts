@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchEvent } from '@/lib/bff/events';
+import { calendarFileName, toCalendarEntry, toICalendar } from '@/lib/ical';
+
+// "Add to calendar": a one-event .ics download
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  let event;
+  try {
+    event = await fetchEvent(id, request.headers.get('user-agent') || '');
+  } catch (error) {
+    console.error('Failed to load event for calendar export:', error);
+    return NextResponse.json(
+      { message: 'Could not load the event, please try again later' },
+      { status: 502 }
+    );
+  }
+  if (!event) {
+    return NextResponse.json({ message: 'Event not found' }, { status: 404 });
+  }
+
+  const body = toICalendar([toCalendarEntry(event, request.nextUrl.origin)]);
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${calendarFileName(
+        event.title
+      )}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ImageResponse } from 'next/og';
+import { fetchEvent } from '@/lib/bff/events';
+import { PREVIEW_IMAGE_SIZE, SITE_NAME, publicImageUrl } from '@/lib/seo';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+// Formats the image renderer can draw
+const DRAWABLE_IMAGE = /^image\/(png|jpeg|gif|svg\+xml)\b/;
+
+// A slow image host shouldn't hold up the preview; the card falls back to
+// the plain branded background
+const IMAGE_TIMEOUT_MS = 3000;
+
+// The same colours as getDifficultyColor, which are Tailwind classes
+const DIFFICULTY_COLORS: Record<string, { background: string; color: string }> =
+  {
+    Beginner: { background: '#dcfce7', color: '#166534' },
+    Intermediate: { background: '#fef9c3', color: '#854d0e' },
+    Advanced: { background: '#ffedd5', color: '#9a3412' },
+    Expert: { background: '#fee2e2', color: '#991b1b' },
+  };
+
+const DEFAULT_DIFFICULTY_COLOR = { background: '#f3f4f6', color: '#1f2937' };
+
+// Inlined as a data: URL so a broken or unsupported image can't fail the
+// whole render
+async function loadImage(path: string): Promise<string | null> {
+  if (path.startsWith('data:')) {
+    return DRAWABLE_IMAGE.test(path.slice(5)) ? path : null;
+  }
+  const url = publicImageUrl(path);
+  if (!url) return null;
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS),
+    });
+    const type = response.headers.get('content-type') || '';
+    if (!response.ok || !DRAWABLE_IMAGE.test(type)) return null;
+    const body = Buffer.from(await response.arrayBuffer());
+    return `data:${type};base64,${body.toString('base64')}`;
+  } catch {
+    return null;
+  }
+}
+
+// The link preview card for chat apps and social networks: primary image,
+// title, date, difficulty and price
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  let event;
+  try {
+    event = await fetchEvent(id, request.headers.get('user-agent') || '');
+  } catch (error) {
+    console.error('Failed to load event for preview image:', error);
+    return NextResponse.json(
+      { message: 'Could not load the event, please try again later' },
+      { status: 502 }
+    );
+  }
+  if (!event) {
+    return NextResponse.json({ message: 'Event not found' }, { status: 404 });
+  }
+
+  const primary =
+    event.images.find((image) => image.isPrimary) || event.images[0];
+  const image = primary ? await loadImage(primary.url) : null;
+  const difficulty =
+    DIFFICULTY_COLORS[event.difficulty] || DEFAULT_DIFFICULTY_COLOR;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          position: 'relative',
+          backgroundColor: '#111827',
+          color: '#ffffff',
+        }}
+      >
+        {image && (
+          <img
+            src={image}
+            alt=""
+            width={PREVIEW_IMAGE_SIZE.width}
+            height={PREVIEW_IMAGE_SIZE.height}
+            style={{
+              position: 'absolute',
+              top: 0,
+              left: 0,
+              width: '100%',
+              height: '100%',
+              objectFit: 'cover',
+            }}
+          />
+        )}
+        <div
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            width: '100%',
+            height: '100%',
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'space-between',
+            padding: '48px 56px',
+            backgroundImage:
+              'linear-gradient(to bottom, rgba(17,24,39,0.55), rgba(17,24,39,0.15) 35%, rgba(17,24,39,0.9))',
+          }}
+        >
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+            }}
+          >
+            <div
+              style={{
+                display: 'flex',
+                backgroundColor: '#ea580c',
+                padding: '10px 22px',
+                borderRadius: 8,
+                fontSize: 28,
+              }}
+            >
+              {SITE_NAME}
+            </div>
+            <div
+              style={{
+                display: 'flex',
+                padding: '10px 24px',
+                borderRadius: 9999,
+                fontSize: 28,
+                ...difficulty,
+              }}
+            >
+              {event.difficulty}
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            <div
+              style={{
+                display: 'flex',
+                fontSize: event.title.length > 40 ? 56 : 68,
+                lineHeight: 1.1,
+                marginBottom: 24,
+              }}
+            >
+              {event.title}
+            </div>
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                fontSize: 32,
+              }}
+            >
+              <div style={{ display: 'flex', color: '#e5e7eb' }}>
+                {formatDate(event.date)}
+              </div>
+              <div
+                style={{
+                  display: 'flex',
+                  backgroundColor: '#ffffff',
+                  color: '#ea580c',
+                  padding: '8px 24px',
+                  borderRadius: 8,
+                  fontSize: 36,
+                }}
+              >
+                {formatCurrency(event.price)}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    ),
+    {
+      ...PREVIEW_IMAGE_SIZE,
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    }
+  );
+}
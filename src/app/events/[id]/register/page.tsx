@@ -6,10 +6,16 @@ import { useForm } from "react-hook-form";
 import Link from "next/link";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import VerifyEmailNotice from "@/components/VerifyEmailNotice";
 import { useAuth } from "@/contexts/AuthContext";
-import api from "@/lib/api";
+import * as client from "@/lib/client";
 import { Event, RegistrationFormData } from "@/types";
-import { formatDate, formatCurrency } from "@/lib/utils";
+import {
+  formatDate,
+  formatCurrency,
+  getErrorMessage,
+  signInUrl,
+} from "@/lib/utils";
 import toast from "react-hot-toast";
 
 export default function EventRegisterPage() {
@@ -20,7 +26,7 @@ export default function EventRegisterPage() {
 
   const params = useParams();
   const router = useRouter();
-  const { user } = useAuth();
+  const { user, isLoading } = useAuth();
   const eventId = params.id as string;
 
   const {
@@ -31,14 +37,15 @@ export default function EventRegisterPage() {
   } = useForm<RegistrationFormData>();
 
   useEffect(() => {
+    if (isLoading) return;
     if (!user) {
-      router.push("/auth/signin");
+      router.push(signInUrl(`/events/${eventId}/register`));
       return;
     }
     if (eventId) {
       fetchEvent();
     }
-  }, [eventId, user, router]);
+  }, [eventId, user, isLoading, router]);
 
   useEffect(() => {
     if (user) {
@@ -52,11 +59,10 @@ export default function EventRegisterPage() {
   const fetchEvent = async () => {
     try {
       setLoading(true);
-      const response = await api.get(`/events/${eventId}`);
-      setEvent(response.data);
+      setEvent(await client.events.get(eventId));
       setError(null);
     } catch (err: any) {
-      setError(err.response?.data?.message || "Failed to fetch event details");
+      setError(getErrorMessage(err, "Failed to fetch event details"));
     } finally {
       setLoading(false);
     }
@@ -67,12 +73,10 @@ export default function EventRegisterPage() {
 
     setSubmitting(true);
     try {
-      const registrationData = {
+      await client.registrations.create({
         eventId: eventId,
         participantDetails: data.participantDetails,
-      };
-
-      await api.post("/registrations", registrationData);
+      });
       toast.success("Registration submitted successfully!");
       router.push(`/events/${eventId}?registered=true`);
     } catch (err: any) {
@@ -117,6 +121,29 @@ export default function EventRegisterPage() {
     );
   }
 
+  // Confirmations go to the account email, so it has to be verified first
+  if (user && !user.emailVerified) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header />
+        <main className="flex-1 bg-gray-50">
+          <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+            <VerifyEmailNotice
+              message={`Verify your email address to register for ${event.title}. Your booking confirmation will be sent there.`}
+            />
+            <Link
+              href={`/events/${eventId}`}
+              className="mt-6 inline-flex items-center text-orange-600 hover:text-orange-700"
+            >
+              ← Back to Event Details
+            </Link>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col">
       <Header />
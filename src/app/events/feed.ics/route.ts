@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchActiveEvents } from '@/lib/bff/events';
+import { toCalendarEntry, toICalendar } from '@/lib/ical';
+import { joinTags, splitTags } from '@/lib/eventFilters';
+
+const DIFFICULTIES = ['Beginner', 'Intermediate', 'Advanced', 'Expert'];
+
+// Calendar apps poll subscriptions; an hour keeps them fresh enough
+const REFRESH_MINUTES = 60;
+
+// Public subscription feed of active events, e.g.
+// /events/feed.ics?difficulty=Beginner&tags=desert,overland
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams;
+  const difficulty = query.get('difficulty') || '';
+  if (difficulty && !DIFFICULTIES.includes(difficulty)) {
+    return NextResponse.json(
+      { message: `Difficulty must be one of ${DIFFICULTIES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  const tags = joinTags(splitTags(query.get('tags') || ''));
+
+  let events;
+  try {
+    events = await fetchActiveEvents(
+      {
+        ...(difficulty && { difficulty }),
+        ...(tags && { tags }),
+      },
+      request.headers.get('user-agent') || ''
+    );
+  } catch (error) {
+    console.error('Failed to load events for the calendar feed:', error);
+    return NextResponse.json(
+      { message: 'Could not load events, please try again later' },
+      { status: 502 }
+    );
+  }
+
+  const name = ['Off-Road Adventures', difficulty, tags.replace(/,/g, ', ')]
+    .filter(Boolean)
+    .join(' · ');
+  const origin = request.nextUrl.origin;
+  const body = toICalendar(
+    events.map((event) => toCalendarEntry(event, origin)),
+    { name, refreshMinutes: REFRESH_MINUTES }
+  );
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="offroad-events.ics"',
+      'Cache-Control': `public, max-age=${REFRESH_MINUTES * 60}`,
+    },
+  });
+}
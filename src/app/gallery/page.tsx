@@ -3,9 +3,9 @@
 import { useState, useEffect } from "react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
-import api from "@/lib/api";
+import * as client from "@/lib/client";
 import { GalleryImage } from "@/types";
-import { getImageUrl } from "@/lib/utils";
+import { getImageUrl, getErrorMessage } from "@/lib/utils";
 
 export default function GalleryPage() {
   const [images, setImages] = useState<GalleryImage[]>([]);
@@ -24,15 +24,10 @@ export default function GalleryPage() {
   const fetchImages = async () => {
     try {
       setLoading(true);
-      const params = new URLSearchParams();
-      if (filters.category) params.append("category", filters.category);
-      if (filters.featured) params.append("featured", filters.featured);
-
-      const response = await api.get(`/gallery?${params.toString()}`);
-      setImages(response.data.images);
+      setImages(await client.gallery.list(filters));
       setError(null);
     } catch (err: any) {
-      setError(err.response?.data?.message || "Failed to fetch gallery images");
+      setError(getErrorMessage(err, "Failed to fetch gallery images"));
     } finally {
       setLoading(false);
     }
@@ -52,7 +47,7 @@ export default function GalleryPage() {
 
   const likeImage = async (imageId: string) => {
     try {
-      await api.post(`/gallery/${imageId}/like`);
+      await client.gallery.like(imageId);
       // Update the local state
       setImages((prev) =>
         prev.map((img) =>
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { Toaster } from "react-hot-toast";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { SITE_NAME, SITE_URL } from "@/lib/seo";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -14,11 +15,24 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+const DESCRIPTION =
+  "Join the ultimate off-road adventures. Register for exciting off-road events, explore challenging terrains, and be part of an amazing community of adventure enthusiasts.";
+
+// Pages set their own title; relative canonical and image URLs resolve
+// against the public site URL
 export const metadata: Metadata = {
-  title: "Off-Road Adventures - Epic Off-Road Events & Adventures",
-  description:
-    "Join the ultimate off-road adventures. Register for exciting off-road events, explore challenging terrains, and be part of an amazing community of adventure enthusiasts.",
+  metadataBase: new URL(SITE_URL),
+  title: {
+    default: "Off-Road Adventures - Epic Off-Road Events & Adventures",
+    template: `%s | ${SITE_NAME}`,
+  },
+  description: DESCRIPTION,
   keywords: "off-road, adventure, events, 4x4, outdoor, extreme sports",
+  openGraph: {
+    siteName: SITE_NAME,
+    type: "website",
+    locale: "en_US",
+  },
 };
 
 export default function RootLayout({
@@ -1,19 +1,24 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
-import api from "@/lib/api";
-import { Event, GalleryImage, Contact } from "@/types";
-import { getImageUrl } from "@/lib/utils";
+import InfiniteScrollTrigger from "@/components/InfiniteScrollTrigger";
+import ListModeToggle from "@/components/ListModeToggle";
+import Pagination from "@/components/Pagination";
+import { usePaginatedList } from "@/hooks/usePaginatedList";
+import * as client from "@/lib/client";
+import { Event, GalleryImage } from "@/types";
+import { getImageUrl, getErrorMessage } from "@/lib/utils";
 import { toast } from "react-hot-toast";
 
+const EVENTS_PAGE_SIZE = 6;
+
 export default function HomePage() {
   const { user } = useAuth();
-  const [events, setEvents] = useState<Event[]>([]);
   const [galleryImages, setGalleryImages] = useState<GalleryImage[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [galleryError, setGalleryError] = useState<string | null>(null);
   const [selectedImage, setSelectedImage] = useState<GalleryImage | null>(null);
   const [contactForm, setContactForm] = useState({
     name: "",
@@ -24,31 +29,55 @@ export default function HomePage() {
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const eventsTop = useRef<HTMLDivElement>(null);
+
+  const {
+    items: events,
+    pagination,
+    mode,
+    setMode,
+    loading: eventsLoading,
+    loadingMore,
+    error,
+    goToPage,
+    loadMore,
+    retry,
+    rememberPosition,
+  } = usePaginatedList<Event>({
+    storageKey: "home-events",
+    queryKey: "upcoming",
+    pageSize: EVENTS_PAGE_SIZE,
+    errorMessage: "Failed to load adventures",
+    fetchPage: (page, limit, signal) =>
+      client.events.list({ page, limit }, signal),
+  });
+
   useEffect(() => {
-    fetchData();
+    fetchGallery();
   }, []);
 
-  const fetchData = async () => {
+  const fetchGallery = async () => {
     try {
-      const [eventsResponse, galleryResponse] = await Promise.all([
-        api.get("/events?limit=6"),
-        api.get("/gallery?featured=true&limit=8"),
-      ]);
-
-      setEvents(eventsResponse.data.events || []);
-      setGalleryImages(galleryResponse.data.images || []);
-    } catch (error) {
-      console.error("Failed to fetch data:", error);
-    } finally {
-      setLoading(false);
+      setGalleryImages(
+        await client.gallery.list({ featured: "true", limit: 8 })
+      );
+      setGalleryError(null);
+    } catch (err) {
+      console.error("Failed to fetch gallery:", err);
+      setGalleryError(getErrorMessage(err, "Failed to load the gallery"));
     }
   };
 
+  const handleEventsPageChange = (page: number) => {
+    goToPage(page);
+    eventsTop.current?.scrollIntoView({ behavior: "smooth" });
+  };
+
   const handleContactSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
       setIsSubmitting(true);
-      await api.post("/contact", contactForm);
+      await client.contacts.create(contactForm);
       toast.success("Message sent successfully! We'll get back to you soon.");
       setContactForm({
         name: "",
@@ -69,14 +98,6 @@ export default function HomePage() {
     element?.scrollIntoView({ behavior: "smooth" });
   };
 
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen">
       <Header />
@@ -223,7 +244,7 @@ export default function HomePage() {
       {/* Events Section */}
       <section id="events" className="py-20 bg-gray-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="text-center mb-16">
+          <div ref={eventsTop} className="text-center mb-16 scroll-mt-20">
             <h2 className="text-4xl font-bold text-gray-900 mb-4">
               Upcoming Adventures
             </h2>
@@ -233,123 +254,166 @@ export default function HomePage() {
             </p>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {events.map((event) => (
-              <div
-                key={event._id}
-                className="bg-white rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-shadow"
+          <div className="flex justify-end mb-6">
+            <ListModeToggle mode={mode} onChange={setMode} />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-8 flex items-center justify-between">
+              <p className="text-red-800">{error}</p>
+              <button
+                type="button"
+                onClick={retry}
+                className="text-sm font-medium text-red-800 underline"
               >
-                {event.images.length > 0 && (
-                  <div className="h-48 relative">
-                    <img
-                      src={getImageUrl(
-                        event.images.find((img) => img.isPrimary)?.url ||
-                          event.images[0].url
-                      )}
-                      alt={
-                        event.images.find((img) => img.isPrimary)?.alt ||
-                        event.title
-                      }
-                      className="w-full h-full object-cover"
-                    />
-                    <div className="absolute top-4 right-4">
-                      <span
-                        className={`px-2 py-1 text-xs rounded-full text-white ${
-                          event.difficulty === "Beginner"
-                            ? "bg-green-600"
-                            : event.difficulty === "Intermediate"
-                            ? "bg-yellow-600"
-                            : event.difficulty === "Advanced"
-                            ? "bg-orange-600"
-                            : "bg-red-600"
-                        }`}
-                      >
-                        {event.difficulty}
-                      </span>
-                    </div>
-                  </div>
-                )}
+                Try again
+              </button>
+            </div>
+          )}
 
-                <div className="p-6">
-                  <h3 className="text-xl font-bold text-gray-900 mb-2">
-                    {event.title}
-                  </h3>
-                  <p className="text-gray-600 mb-4">{event.shortDescription}</p>
+          {eventsLoading && (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+            </div>
+          )}
 
-                  <div className="space-y-2 text-sm text-gray-500 mb-4">
-                    <div className="flex items-center">
-                      <svg
-                        className="w-4 h-4 mr-2"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
-                        />
-                      </svg>
-                      {new Date(event.date).toLocaleDateString()}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {!eventsLoading &&
+              events.map((event) => (
+                <div
+                  key={event._id}
+                  className="bg-white rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-shadow"
+                >
+                  {event.images.length > 0 && (
+                    <div className="h-48 relative">
+                      <img
+                        src={getImageUrl(
+                          event.images.find((img) => img.isPrimary)?.url ||
+                            event.images[0].url
+                        )}
+                        alt={
+                          event.images.find((img) => img.isPrimary)?.alt ||
+                          event.title
+                        }
+                        className="w-full h-full object-cover"
+                      />
+                      <div className="absolute top-4 right-4">
+                        <span
+                          className={`px-2 py-1 text-xs rounded-full text-white ${
+                            event.difficulty === "Beginner"
+                              ? "bg-green-600"
+                              : event.difficulty === "Intermediate"
+                              ? "bg-yellow-600"
+                              : event.difficulty === "Advanced"
+                              ? "bg-orange-600"
+                              : "bg-red-600"
+                          }`}
+                        >
+                          {event.difficulty}
+                        </span>
+                      </div>
                     </div>
-                    <div className="flex items-center">
-                      <svg
-                        className="w-4 h-4 mr-2"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"
-                        />
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"
-                        />
-                      </svg>
-                      {event.location.address}
+                  )}
+
+                  <div className="p-6">
+                    <h3 className="text-xl font-bold text-gray-900 mb-2">
+                      {event.title}
+                    </h3>
+                    <p className="text-gray-600 mb-4">{event.shortDescription}</p>
+
+                    <div className="space-y-2 text-sm text-gray-500 mb-4">
+                      <div className="flex items-center">
+                        <svg
+                          className="w-4 h-4 mr-2"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                          />
+                        </svg>
+                        {new Date(event.date).toLocaleDateString()}
+                      </div>
+                      <div className="flex items-center">
+                        <svg
+                          className="w-4 h-4 mr-2"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"
+                          />
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"
+                          />
+                        </svg>
+                        {event.location.address}
+                      </div>
+                      <div className="flex items-center">
+                        <svg
+                          className="w-4 h-4 mr-2"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197m13.5-9a2.5 2.5 0 11-5 0 2.5 2.5 0 015 0z"
+                          />
+                        </svg>
+                        {event.currentParticipants}/{event.maxParticipants}{" "}
+                        participants
+                      </div>
                     </div>
-                    <div className="flex items-center">
-                      <svg
-                        className="w-4 h-4 mr-2"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
+
+                    <div className="flex items-center justify-between">
+                      <span className="text-2xl font-bold text-orange-600">
+                        ${event.price}
+                      </span>
+                      <a
+                        href={`/events/${event._id}`}
+                        onClick={rememberPosition}
+                        className="bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-lg transition-colors"
                       >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197m13.5-9a2.5 2.5 0 11-5 0 2.5 2.5 0 015 0z"
-                        />
-                      </svg>
-                      {event.currentParticipants}/{event.maxParticipants}{" "}
-                      participants
+                        Learn More
+                      </a>
                     </div>
                   </div>
-
-                  <div className="flex items-center justify-between">
-                    <span className="text-2xl font-bold text-orange-600">
-                      ${event.price}
-                    </span>
-                    <a
-                      href={`/events/${event._id}`}
-                      className="bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-lg transition-colors"
-                    >
-                      Learn More
-                    </a>
-                  </div>
                 </div>
-              </div>
-            ))}
+              ))}
           </div>
 
+          {pagination &&
+            !eventsLoading &&
+            (mode === "pages" ? (
+              <Pagination
+                pagination={pagination}
+                onPageChange={handleEventsPageChange}
+              />
+            ) : (
+              events.length > 0 && (
+                <InfiniteScrollTrigger
+                  hasMore={pagination.hasNext && !error}
+                  loading={loadingMore}
+                  onLoadMore={loadMore}
+                  endMessage="That's every upcoming adventure"
+                />
+              )
+            ))}
+
           <div className="text-center mt-12">
             <a
               href="/events"
@@ -374,6 +438,12 @@ export default function HomePage() {
             </p>
           </div>
 
+          {galleryError && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-8">
+              <p className="text-red-800">{galleryError}</p>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
             {galleryImages.map((image) => (
               <div
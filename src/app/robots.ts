@@ -0,0 +1,21 @@
+import type { MetadataRoute } from 'next';
+import { absoluteUrl } from '@/lib/seo';
+
+// Signed-in areas, API routes and private feeds have nothing to index
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+      disallow: [
+        '/admin',
+        '/account',
+        '/auth',
+        '/api/',
+        '/calendar/',
+        '/events/*/register',
+      ],
+    },
+    sitemap: absoluteUrl('/sitemap.xml'),
+  };
+}
@@ -0,0 +1,55 @@
+import type { MetadataRoute } from 'next';
+import { fetchActiveEvents, fetchGalleryImages } from '@/lib/bff/events';
+import { absoluteUrl, eventImageUrls, publicImageUrl } from '@/lib/seo';
+import { Event, GalleryImage } from '@/types';
+
+export const revalidate = 3600;
+
+// A sitemap missing its dynamic entries beats no sitemap at all
+async function orEmpty<T>(read: () => Promise<T[]>, label: string) {
+  try {
+    return await read();
+  } catch (error) {
+    console.error(`Failed to fetch ${label} for the sitemap:`, error);
+    return [] as T[];
+  }
+}
+
+function latest(dates: string[]): Date | undefined {
+  const times = dates.map((date) => new Date(date).getTime());
+  return times.length > 0 ? new Date(Math.max(...times)) : undefined;
+}
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const [events, images] = await Promise.all([
+    orEmpty<Event>(() => fetchActiveEvents({}), 'events'),
+    orEmpty<GalleryImage>(fetchGalleryImages, 'gallery images'),
+  ]);
+
+  return [
+    { url: absoluteUrl('/'), changeFrequency: 'daily', priority: 1 },
+    {
+      url: absoluteUrl('/events'),
+      lastModified: latest(events.map((event) => event.updatedAt)),
+      changeFrequency: 'daily',
+      priority: 0.9,
+    },
+    ...events.map((event) => ({
+      url: absoluteUrl(`/events/${event._id}`),
+      lastModified: new Date(event.updatedAt),
+      changeFrequency: 'daily' as const,
+      priority: 0.8,
+      images: eventImageUrls(event),
+    })),
+    {
+      url: absoluteUrl('/gallery'),
+      lastModified: latest(images.map((image) => image.createdAt)),
+      changeFrequency: 'weekly',
+      priority: 0.6,
+      images: images
+        .map((image) => publicImageUrl(image.imageUrl))
+        .filter((url): url is string => url !== null),
+    },
+    { url: absoluteUrl('/contact'), changeFrequency: 'yearly', priority: 0.3 },
+  ];
+}
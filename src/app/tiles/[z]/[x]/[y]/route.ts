@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const TILE_SIZE = 256;
+const MAX_ZOOM = 18;
+
+// Offline stand-in for a real tile server (see LOCAL_TILE_SOURCE): a light
+// grid with each tile's address, enough to pan, zoom and place markers
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ z: string; x: string; y: string }> }
+) {
+  const { z, x, y } = await params;
+  const [zoom, column, row] = [z, x, y].map((part) =>
+    /^\d+$/.test(part) ? Number(part) : NaN
+  );
+  const tiles = 2 ** zoom;
+  // NaN fails every comparison, so malformed parts end up here too
+  if (!(zoom <= MAX_ZOOM && column < tiles && row < tiles)) {
+    return NextResponse.json({ message: 'Tile not found' }, { status: 404 });
+  }
+
+  const shade = (column + row) % 2 === 0 ? '#f1f5ee' : '#e9efe4';
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${TILE_SIZE}" height="${TILE_SIZE}">
+<rect width="100%" height="100%" fill="${shade}" stroke="#cfd8c8"/>
+<text x="8" y="20" font-family="sans-serif" font-size="12" fill="#9aa894">${zoom}/${column}/${row}</text>
+</svg>`;
+
+  return new NextResponse(svg, {
+    headers: {
+      'Content-Type': 'image/svg+xml',
+      'Cache-Control': 'public, max-age=86400, immutable',
+    },
+  });
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+
+interface CalendarFeedLinkProps {
+  // Path of the .ics feed on this site, query string included
+  path: string;
+}
+
+// The feed URL to paste into a calendar app, plus a webcal:// link that
+// most of them open directly as a subscription
+const CalendarFeedLink: React.FC<CalendarFeedLinkProps> = ({ path }) => {
+  const [origin, setOrigin] = useState("");
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  const url = `${origin}${path}`;
+  const webcalUrl = url.replace(/^https?:/, "webcal:");
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Calendar link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  return (
+    <div>
+      <input
+        type="text"
+        readOnly
+        value={url}
+        aria-label="Calendar feed URL"
+        onFocus={(e) => e.target.select()}
+        className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-xs text-gray-700 bg-gray-50"
+      />
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <button
+          type="button"
+          onClick={copyLink}
+          className="text-sm font-medium text-orange-600 hover:text-orange-700"
+        >
+          Copy link
+        </button>
+        <a
+          href={webcalUrl}
+          className="bg-orange-600 text-white px-3 py-1.5 rounded-md text-sm hover:bg-orange-700"
+        >
+          Open in calendar app
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarFeedLink;
@@ -0,0 +1,54 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import CalendarFeedLink from "@/components/CalendarFeedLink";
+
+interface CalendarSubscribeProps {
+  // Path of the .ics feed on this site, query string included
+  path: string;
+  label?: string;
+  description?: string;
+}
+
+const DEFAULT_DESCRIPTION =
+  "Add this feed to your calendar app to keep up with new events.";
+
+// A button opening the feed link in a small popover
+const CalendarSubscribe: React.FC<CalendarSubscribeProps> = ({
+  path,
+  label = "Subscribe",
+  description = DEFAULT_DESCRIPTION,
+}) => {
+  const [open, setOpen] = useState(false);
+  const panel = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!panel.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  return (
+    <div ref={panel} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        aria-expanded={open}
+        className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+      >
+        📅 {label}
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-80 rounded-md border border-gray-200 bg-white p-4 shadow-lg">
+          <p className="text-sm text-gray-600 mb-3">{description}</p>
+          <CalendarFeedLink path={path} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarSubscribe;
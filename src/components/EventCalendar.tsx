@@ -0,0 +1,352 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import ToggleGroup from "@/components/ToggleGroup";
+import * as client from "@/lib/client";
+import {
+  addDays,
+  CalendarScale,
+  calendarDays,
+  formatCalendarTitle,
+  isSameDay,
+  shiftAnchor,
+  toDayKey,
+} from "@/lib/calendar";
+import { cn, getDifficultyColor, getErrorMessage } from "@/lib/utils";
+import { Event, EventFilters } from "@/types";
+
+const SCALE_OPTIONS: { value: CalendarScale; label: string }[] = [
+  { value: "month", label: "Month" },
+  { value: "week", label: "Week" },
+];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const DIFFICULTIES: Event["difficulty"][] = [
+  "Beginner",
+  "Intermediate",
+  "Advanced",
+  "Expert",
+];
+
+// Enough for any month; the notice below covers the rare overflow
+const CALENDAR_LIMIT = 100;
+
+// Registration closes before the event, so events up to a month after the
+// visible range can still have their deadline inside it
+const DEADLINE_LOOKAHEAD_DAYS = 31;
+
+// Month cells list this many entries before collapsing into "+N more"
+const MONTH_CELL_ITEMS = 3;
+
+interface CalendarEntry {
+  kind: "event" | "deadline";
+  event: Event;
+}
+
+interface EventCalendarProps {
+  // The list filters, without paging; the calendar sets its own date range
+  filters: EventFilters;
+  scale: CalendarScale;
+  anchor: Date;
+  onScaleChange: (scale: CalendarScale) => void;
+  // Moves to another month or week, optionally switching scale as well
+  onNavigate: (anchor: Date, scale?: CalendarScale) => void;
+  onEventOpen?: () => void;
+}
+
+function entryTime({ kind, event }: CalendarEntry) {
+  return new Date(
+    kind === "event" ? event.date : event.registrationDeadline
+  ).getTime();
+}
+
+function formatTime(date: string) {
+  return new Date(date).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+// The narrower of the calendar range and the user's own date filter
+function intersectRange(
+  filters: EventFilters,
+  from: string,
+  to: string
+): { from: string; to: string } {
+  return {
+    from: filters.from && filters.from > from ? filters.from : from,
+    to: filters.to && filters.to < to ? filters.to : to,
+  };
+}
+
+const EntryLink: React.FC<{
+  entry: CalendarEntry;
+  compact: boolean;
+  onOpen?: () => void;
+}> = ({ entry, compact, onOpen }) => {
+  const { event, kind } = entry;
+  const label =
+    kind === "deadline"
+      ? `Registration closes: ${event.title}`
+      : `${formatTime(event.date)} ${event.title}`;
+
+  return (
+    <Link
+      href={`/events/${event._id}`}
+      onClick={onOpen}
+      title={label}
+      className={cn(
+        "block rounded px-1.5 py-0.5 text-xs hover:opacity-80",
+        kind === "deadline"
+          ? "border border-dashed border-red-300 bg-white text-red-700"
+          : getDifficultyColor(event.difficulty),
+        compact && "truncate"
+      )}
+    >
+      {kind === "deadline" ? (
+        <>
+          <span aria-hidden="true">⏰ </span>
+          {compact ? event.title : label}
+        </>
+      ) : (
+        <>
+          <span className="font-medium">{formatTime(event.date)}</span>{" "}
+          {event.title}
+          {!compact && (
+            <span className="block text-[11px] opacity-80">
+              {event.location.address} · {event.availableSpots} spots left
+            </span>
+          )}
+        </>
+      )}
+    </Link>
+  );
+};
+
+const EventCalendar: React.FC<EventCalendarProps> = ({
+  filters,
+  scale,
+  anchor,
+  onScaleChange,
+  onNavigate,
+  onEventOpen,
+}) => {
+  const [events, setEvents] = useState<Event[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  const days = useMemo(() => calendarDays(scale, anchor), [scale, anchor]);
+  const firstDay = toDayKey(days[0]);
+  const lastDay = toDayKey(days[days.length - 1]);
+  const filtersKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    const range = intersectRange(
+      filters,
+      firstDay,
+      toDayKey(addDays(days[days.length - 1], DEADLINE_LOOKAHEAD_DAYS))
+    );
+    if (range.from > range.to) {
+      setEvents([]);
+      setTruncated(false);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    client.events
+      .list(
+        { ...filters, ...range, sort: "date", page: 1, limit: CALENDAR_LIMIT },
+        controller.signal
+      )
+      .then(({ data, pagination }) => {
+        setEvents(data);
+        setTruncated(pagination.hasNext);
+        setError(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(getErrorMessage(err, "Failed to load the calendar"));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [filtersKey, firstDay, lastDay, attempt]);
+
+  // Events on their day, deadlines on the day registration closes
+  const entriesByDay = useMemo(() => {
+    const byDay = new Map<string, CalendarEntry[]>();
+    const add = (date: string, entry: CalendarEntry) => {
+      const key = toDayKey(new Date(date));
+      byDay.set(key, [...(byDay.get(key) || []), entry]);
+    };
+    events.forEach((event) => {
+      add(event.date, { kind: "event", event });
+      if (event.registrationDeadline) {
+        add(event.registrationDeadline, { kind: "deadline", event });
+      }
+    });
+    byDay.forEach((entries) =>
+      entries.sort((a, b) => entryTime(a) - entryTime(b))
+    );
+    return byDay;
+  }, [events]);
+
+  const today = new Date();
+  const isEmpty = !days.some((day) => entriesByDay.has(toDayKey(day)));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={() => onNavigate(shiftAnchor(scale, anchor, -1))}
+            aria-label={`Previous ${scale}`}
+            className="px-2 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            ‹
+          </button>
+          <button
+            type="button"
+            onClick={() => onNavigate(new Date())}
+            className="px-3 py-1 rounded-md border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <button
+            type="button"
+            onClick={() => onNavigate(shiftAnchor(scale, anchor, 1))}
+            aria-label={`Next ${scale}`}
+            className="px-2 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            ›
+          </button>
+          <h3 className="ml-2 text-lg font-semibold text-gray-900">
+            {formatCalendarTitle(scale, anchor)}
+          </h3>
+          {loading && (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-orange-600"></div>
+          )}
+        </div>
+        <ToggleGroup
+          label="Calendar range"
+          options={SCALE_OPTIONS}
+          value={scale}
+          onChange={onScaleChange}
+        />
+      </div>
+
+      {error && (
+        <div className="m-4 bg-red-50 border border-red-200 rounded-md p-4 flex items-center justify-between">
+          <p className="text-red-800">{error}</p>
+          <button
+            type="button"
+            onClick={() => setAttempt((count) => count + 1)}
+            className="text-sm font-medium text-red-800 underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {truncated && (
+        <p className="mx-4 mt-4 text-sm text-gray-500">
+          Showing the first {CALENDAR_LIMIT} events; narrow the filters to
+          see the rest.
+        </p>
+      )}
+
+      <div className="grid grid-cols-7 border-b border-gray-200 text-xs font-medium text-gray-500">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="px-2 py-2 text-center">
+            {weekday}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7">
+        {days.map((day) => {
+          const key = toDayKey(day);
+          const entries = entriesByDay.get(key) || [];
+          const outsideMonth =
+            scale === "month" && day.getMonth() !== anchor.getMonth();
+          const visible =
+            scale === "month" ? entries.slice(0, MONTH_CELL_ITEMS) : entries;
+          const hidden = entries.length - visible.length;
+
+          return (
+            <div
+              key={key}
+              className={cn(
+                "border-b border-r border-gray-100 p-1.5 space-y-1",
+                scale === "month" ? "min-h-[6.5rem]" : "min-h-[16rem]",
+                outsideMonth && "bg-gray-50"
+              )}
+            >
+              <div
+                className={cn(
+                  "text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full",
+                  isSameDay(day, today)
+                    ? "bg-orange-600 text-white"
+                    : outsideMonth
+                    ? "text-gray-400"
+                    : "text-gray-700"
+                )}
+              >
+                {day.getDate()}
+              </div>
+              {visible.map((entry) => (
+                <EntryLink
+                  key={`${entry.kind}-${entry.event._id}`}
+                  entry={entry}
+                  compact={scale === "month"}
+                  onOpen={onEventOpen}
+                />
+              ))}
+              {hidden > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onNavigate(day, "week")}
+                  className="text-xs font-medium text-orange-600 hover:text-orange-700"
+                >
+                  +{hidden} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 p-4 text-xs text-gray-600">
+        {DIFFICULTIES.map((difficulty) => (
+          <span
+            key={difficulty}
+            className={cn(
+              "px-2 py-0.5 rounded-full",
+              getDifficultyColor(difficulty)
+            )}
+          >
+            {difficulty}
+          </span>
+        ))}
+        <span className="px-2 py-0.5 rounded border border-dashed border-red-300 text-red-700">
+          ⏰ Registration deadline
+        </span>
+        {!loading && isEmpty && !error && (
+          <span className="ml-auto text-gray-500">
+            No events in this {scale}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EventCalendar;
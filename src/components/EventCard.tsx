@@ -0,0 +1,104 @@
+import React from "react";
+import Link from "next/link";
+import { Coordinates, distanceKm, formatDistance } from "@/lib/geo";
+import { Event } from "@/types";
+import {
+  formatCurrency,
+  formatDate,
+  getDifficultyColor,
+  getImageUrl,
+} from "@/lib/utils";
+
+interface EventCardProps {
+  event: Event;
+  // Shows how far away the event is while filtering around a point
+  origin?: Coordinates | null;
+  // Called before following the link, e.g. to remember the list position
+  onOpen?: () => void;
+}
+
+// Has no client state, so the events page can also render it on the server
+const EventCard: React.FC<EventCardProps> = ({ event, origin, onOpen }) => (
+    <div
+      className="bg-white rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-shadow"
+    >
+      {/* Event Image */}
+      <div className="h-48 bg-gray-200 relative">
+        {event.images.length > 0 ? (
+          <img
+            src={getImageUrl(event.images[0].url)}
+            alt={event.images[0].alt}
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-gray-400">
+            <span className="text-4xl">🏔️</span>
+          </div>
+        )}
+        <div className="absolute top-4 right-4">
+          <span
+            className={`px-2 py-1 rounded-full text-xs font-medium ${getDifficultyColor(
+              event.difficulty
+            )}`}
+          >
+            {event.difficulty}
+          </span>
+        </div>
+      </div>
+
+      {/* Event Details */}
+      <div className="p-6">
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">
+          {event.title}
+        </h3>
+        <p className="text-gray-600 mb-4 line-clamp-2">
+          {event.shortDescription}
+        </p>
+
+        <div className="space-y-2 mb-4">
+          <div className="flex items-center text-sm text-gray-500">
+            <span className="mr-2">📅</span>
+            {formatDate(event.date)}
+          </div>
+          <div className="flex items-center text-sm text-gray-500">
+            <span className="mr-2">📍</span>
+            {event.location.address}
+            {origin && event.location.coordinates && (
+              <span className="ml-1 text-gray-400">
+                ·{" "}
+                {formatDistance(
+                  distanceKm(origin, event.location.coordinates)
+                )}{" "}
+                away
+              </span>
+            )}
+          </div>
+          <div className="flex items-center text-sm text-gray-500">
+            <span className="mr-2">⏱️</span>
+            {event.duration}
+          </div>
+          <div className="flex items-center text-sm text-gray-500">
+            <span className="mr-2">👥</span>
+            {event.currentParticipants}/{event.maxParticipants}{" "}
+            participants
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-2xl font-bold text-orange-600">
+            {formatCurrency(event.price)}
+          </span>
+          <Link
+            href={`/events/${event._id}`}
+            onClick={onOpen}
+            className="bg-orange-600 text-white px-4 py-2 rounded-md hover:bg-orange-700 transition-colors"
+          >
+            View Details
+          </Link>
+        </div>
+      </div>
+    </div>
+
+);
+
+export default EventCard;
@@ -0,0 +1,332 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import {
+  countAdvancedFilters,
+  DEFAULT_RADIUS_KM,
+  EventFilterState,
+  hasActiveFilters,
+  joinTags,
+  RADIUS_OPTIONS_KM,
+  splitTags,
+} from "@/lib/eventFilters";
+import { formatCoordinates, parseCoordinates } from "@/lib/geo";
+import { cn } from "@/lib/utils";
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500";
+
+const labelClassName = "block text-sm font-medium text-gray-700 mb-2";
+
+interface CommitInputProps
+  extends Omit<React.InputHTMLAttributes<HTMLInputElement>, "onChange"> {
+  value: string;
+  onCommit: (value: string) => void;
+}
+
+// Keeps half-typed values local and hands them over on blur or Enter, so
+// every keystroke doesn't become a new URL and a new request
+const CommitInput: React.FC<CommitInputProps> = ({
+  value,
+  onCommit,
+  ...props
+}) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (draft.trim() !== value) onCommit(draft.trim());
+  };
+
+  return (
+    <input
+      {...props}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+    />
+  );
+};
+
+interface EventFilterPanelProps {
+  filters: EventFilterState;
+  searchInput: string;
+  onSearchInputChange: (value: string) => void;
+  onChange: (changes: Partial<EventFilterState>) => void;
+  onClear: () => void;
+  availableTags: string[];
+}
+
+const EventFilterPanel: React.FC<EventFilterPanelProps> = ({
+  filters,
+  searchInput,
+  onSearchInputChange,
+  onChange,
+  onClear,
+  availableTags,
+}) => {
+  const advancedCount = countAdvancedFilters(filters);
+  const [showAdvanced, setShowAdvanced] = useState(advancedCount > 0);
+  const [locating, setLocating] = useState(false);
+  const selectedTags = splitTags(filters.tags);
+
+  const toggleTag = (tag: string) => {
+    onChange({
+      tags: joinTags(
+        selectedTags.includes(tag)
+          ? selectedTags.filter((selected) => selected !== tag)
+          : [...selectedTags, tag]
+      ),
+    });
+  };
+
+  const setNear = (near: string) => {
+    onChange({
+      near,
+      radius: near ? filters.radius || String(DEFAULT_RADIUS_KM) : "",
+    });
+  };
+
+  const locateMe = () => {
+    if (!navigator.geolocation) {
+      toast.error("Your browser can't share its location");
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setLocating(false);
+        setNear(formatCoordinates(coords));
+      },
+      () => {
+        setLocating(false);
+        toast.error("Could not get your location");
+      },
+      { timeout: 10000 }
+    );
+  };
+
+  const commitNear = (value: string) => {
+    if (value && !parseCoordinates(value)) {
+      toast.error("Enter a point as latitude, longitude");
+      return;
+    }
+    setNear(value ? formatCoordinates(parseCoordinates(value)!) : "");
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Filter Events</h2>
+        {hasActiveFilters(filters) && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-sm font-medium text-orange-600 hover:text-orange-700"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="event-search" className={labelClassName}>
+            Search Events
+          </label>
+          <input
+            id="event-search"
+            type="search"
+            value={searchInput}
+            onChange={(e) => onSearchInputChange(e.target.value)}
+            className={inputClassName}
+            placeholder="Search events..."
+          />
+        </div>
+        <div>
+          <label htmlFor="event-difficulty" className={labelClassName}>
+            Difficulty Level
+          </label>
+          <select
+            id="event-difficulty"
+            value={filters.difficulty}
+            onChange={(e) => onChange({ difficulty: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">All Levels</option>
+            <option value="Beginner">Beginner</option>
+            <option value="Intermediate">Intermediate</option>
+            <option value="Advanced">Advanced</option>
+            <option value="Expert">Expert</option>
+          </select>
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setShowAdvanced((shown) => !shown)}
+        aria-expanded={showAdvanced}
+        aria-controls="advanced-event-filters"
+        className="mt-4 text-sm font-medium text-gray-700 hover:text-gray-900"
+      >
+        {showAdvanced ? "▾" : "▸"} More filters
+        {advancedCount > 0 && (
+          <span className="ml-2 bg-orange-100 text-orange-700 px-2 py-0.5 rounded-full text-xs">
+            {advancedCount}
+          </span>
+        )}
+      </button>
+
+      {showAdvanced && (
+        <div
+          id="advanced-event-filters"
+          className="mt-4 pt-4 border-t border-gray-200 space-y-6"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <fieldset>
+              <legend className={labelClassName}>Price (USD)</legend>
+              <div className="flex items-center space-x-2">
+                <CommitInput
+                  type="number"
+                  min={0}
+                  inputMode="numeric"
+                  aria-label="Minimum price"
+                  placeholder="Min"
+                  value={filters.minPrice}
+                  onCommit={(minPrice) => onChange({ minPrice })}
+                  className={inputClassName}
+                />
+                <span className="text-gray-400">–</span>
+                <CommitInput
+                  type="number"
+                  min={0}
+                  inputMode="numeric"
+                  aria-label="Maximum price"
+                  placeholder="Max"
+                  value={filters.maxPrice}
+                  onCommit={(maxPrice) => onChange({ maxPrice })}
+                  className={inputClassName}
+                />
+              </div>
+            </fieldset>
+            <fieldset>
+              <legend className={labelClassName}>Dates</legend>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="date"
+                  aria-label="From date"
+                  value={filters.from}
+                  max={filters.to || undefined}
+                  onChange={(e) => onChange({ from: e.target.value })}
+                  className={inputClassName}
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="date"
+                  aria-label="To date"
+                  value={filters.to}
+                  min={filters.from || undefined}
+                  onChange={(e) => onChange({ to: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            </fieldset>
+          </div>
+
+          {availableTags.length > 0 && (
+            <fieldset>
+              <legend className={labelClassName}>Tags</legend>
+              <div className="flex flex-wrap gap-2">
+                {availableTags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => toggleTag(tag)}
+                    aria-pressed={selectedTags.includes(tag)}
+                    className={cn(
+                      "px-3 py-1 rounded-full text-sm border transition-colors",
+                      selectedTags.includes(tag)
+                        ? "bg-orange-600 border-orange-600 text-white"
+                        : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+                    )}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <fieldset>
+              <legend className={labelClassName}>Distance</legend>
+              <div className="flex items-center space-x-2">
+                <CommitInput
+                  type="text"
+                  aria-label="Point to measure from"
+                  placeholder="Latitude, longitude"
+                  value={filters.near}
+                  onCommit={commitNear}
+                  className={inputClassName}
+                />
+                <select
+                  aria-label="Maximum distance"
+                  value={filters.radius || String(DEFAULT_RADIUS_KM)}
+                  onChange={(e) => onChange({ radius: e.target.value })}
+                  disabled={!filters.near}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 disabled:bg-gray-100"
+                >
+                  {RADIUS_OPTIONS_KM.map((km) => (
+                    <option key={km} value={km}>
+                      within {km} km
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="mt-2 flex items-center space-x-4 text-sm">
+                <button
+                  type="button"
+                  onClick={locateMe}
+                  disabled={locating}
+                  className="font-medium text-orange-600 hover:text-orange-700 disabled:opacity-50"
+                >
+                  {locating ? "Locating..." : "Use my location"}
+                </button>
+                {filters.near && (
+                  <button
+                    type="button"
+                    onClick={() => setNear("")}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    Any distance
+                  </button>
+                )}
+              </div>
+            </fieldset>
+            <div className="flex items-end">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={filters.available === "true"}
+                  onChange={(e) =>
+                    onChange({ available: e.target.checked ? "true" : "" })
+                  }
+                  className="h-4 w-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
+                />
+                <span>Only events with spots available</span>
+              </label>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventFilterPanel;
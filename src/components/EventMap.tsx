@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import LocationMap, { MapMarker } from "@/components/LocationMap";
+import * as client from "@/lib/client";
+import {
+  formatCurrency,
+  formatDate,
+  getDifficultyColor,
+  getErrorMessage,
+} from "@/lib/utils";
+import { Event, EventFilters } from "@/types";
+
+// Same cap as the calendar; the notice below covers the overflow
+const MAP_LIMIT = 100;
+
+interface EventMapProps {
+  // The list filters, without paging
+  filters: EventFilters;
+  onEventOpen?: () => void;
+}
+
+const EventMap: React.FC<EventMapProps> = ({ filters, onEventOpen }) => {
+  const [events, setEvents] = useState<Event[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [selected, setSelected] = useState<string[]>([]);
+  const filtersKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    client.events
+      .list({ ...filters, page: 1, limit: MAP_LIMIT }, controller.signal)
+      .then(({ data, pagination }) => {
+        setEvents(data);
+        setTruncated(pagination.hasNext);
+        setSelected([]);
+        setError(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(getErrorMessage(err, "Failed to load the map"));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [filtersKey, attempt]);
+
+  // Memoized so the map only reframes when the results change
+  const markers = useMemo<MapMarker[]>(
+    () =>
+      events.flatMap(({ _id, title, difficulty, location }) =>
+        location.coordinates
+          ? [
+              {
+                id: _id,
+                title,
+                coordinates: location.coordinates,
+                colorClass: getDifficultyColor(difficulty),
+              },
+            ]
+          : []
+      ),
+    [events]
+  );
+  const unmapped = events.length - markers.length;
+  const summary = `${markers.length} event${
+    markers.length === 1 ? "" : "s"
+  } on the map`;
+  const selectedEvents = events.filter(({ _id }) => selected.includes(_id));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      {error && (
+        <div className="m-4 bg-red-50 border border-red-200 rounded-md p-4 flex items-center justify-between">
+          <p className="text-red-800">{error}</p>
+          <button
+            type="button"
+            onClick={() => setAttempt((count) => count + 1)}
+            className="text-sm font-medium text-red-800 underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      <div className="relative">
+        <LocationMap
+          markers={markers}
+          label="Map of events"
+          className="h-[32rem] rounded-t-lg"
+          onSelect={(picked) => setSelected(picked.map(({ id }) => id))}
+        />
+        {loading && (
+          <div className="absolute top-3 right-3 z-10 rounded-full bg-white p-2 shadow">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-orange-600"></div>
+          </div>
+        )}
+      </div>
+
+      {selectedEvents.length > 0 && (
+        <ul className="divide-y divide-gray-100 border-b border-gray-200">
+          {selectedEvents.map((event) => (
+            <li
+              key={event._id}
+              className="flex items-center justify-between gap-4 p-4"
+            >
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900 truncate">
+                  {event.title}
+                </p>
+                <p className="text-sm text-gray-500 truncate">
+                  {formatDate(event.date)} · {event.location.address} ·{" "}
+                  {formatCurrency(event.price)}
+                </p>
+              </div>
+              <Link
+                href={`/events/${event._id}`}
+                onClick={onEventOpen}
+                className="flex-shrink-0 bg-orange-600 text-white px-4 py-2 rounded-md text-sm hover:bg-orange-700 transition-colors"
+              >
+                View Details
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 p-4 text-sm text-gray-500">
+        <span>{loading ? "Loading events..." : summary}</span>
+        {!loading && unmapped > 0 && (
+          <span>{unmapped} without a meeting point are not shown</span>
+        )}
+        {truncated && (
+          <span>
+            Showing the first {MAP_LIMIT} events; narrow the filters to see the
+            rest.
+          </span>
+        )}
+        {selectedEvents.length === 0 && markers.length > 0 && (
+          <span className="ml-auto">Select a pin to see the event</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EventMap;
@@ -0,0 +1,368 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import CalendarSubscribe from "@/components/CalendarSubscribe";
+import EventCalendar from "@/components/EventCalendar";
+import EventCard from "@/components/EventCard";
+import EventFilterPanel from "@/components/EventFilterPanel";
+import EventMap from "@/components/EventMap";
+import InfiniteScrollTrigger from "@/components/InfiniteScrollTrigger";
+import ListModeToggle from "@/components/ListModeToggle";
+import Pagination from "@/components/Pagination";
+import ToggleGroup from "@/components/ToggleGroup";
+import { useDebouncedValue } from "@/hooks/useDebouncedValue";
+import { usePaginatedList } from "@/hooks/usePaginatedList";
+import { CalendarScale, parseDayKey, toDayKey } from "@/lib/calendar";
+import * as client from "@/lib/client";
+import { distanceKm, formatDistance, parseCoordinates } from "@/lib/geo";
+import {
+  DEFAULT_EVENT_FILTERS,
+  EVENT_PAGE_SIZE,
+  EVENT_SORT_OPTIONS,
+  EVENT_VIEW_OPTIONS,
+  EventFilterState,
+  EventViewState,
+  parseEventFilters,
+  parseEventView,
+  toEventFilters,
+  toEventQuery,
+  toCalendarFeedPath,
+  toEventsSearch,
+} from "@/lib/eventFilters";
+import { Event, PaginatedResponse } from "@/types";
+import { formatCurrency, getDifficultyColor } from "@/lib/utils";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const FEED_DESCRIPTION =
+  "Every upcoming event in your calendar app. Pick a difficulty or tags " +
+  "to narrow the feed.";
+const FILTERED_FEED_DESCRIPTION =
+  "Upcoming events with the difficulty and tags picked above, in your " +
+  "calendar app.";
+
+interface EventsListProps {
+  // The first page with no filters, as rendered on the server
+  initialPage?: PaginatedResponse<Event>;
+}
+
+// Filters, view toggles and results of the events page. Reads the query
+// string, so it renders in the browser inside a Suspense boundary.
+const EventsList: React.FC<EventsListProps> = ({ initialPage }) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const listTop = useRef<HTMLDivElement>(null);
+
+  // The query string is the source of truth, so filtered views can be
+  // bookmarked, shared and walked through with the back button
+  const filters = useMemo(
+    () => parseEventFilters(searchParams),
+    [searchParams]
+  );
+  const queryKey = toEventQuery(filters);
+  const view = useMemo(() => parseEventView(searchParams), [searchParams]);
+  // The calendar and map fetch their own events; the rest page through them
+  const paged = view.view === "grid" || view.view === "list";
+  // The calendar shows today's month or week unless the URL pins a day
+  const anchor = useMemo(
+    () => parseDayKey(view.date) ?? new Date(),
+    [view.date]
+  );
+
+  // Search is typed into local state and only reaches the URL once the
+  // user pauses
+  const [searchInput, setSearchInput] = useState(filters.search);
+  const debouncedSearch = useDebouncedValue(searchInput, SEARCH_DEBOUNCE_MS);
+  const lastSearch = useRef(filters.search);
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  // Distances are shown on the cards while filtering around a point
+  const origin = parseCoordinates(filters.near);
+
+  const {
+    items: events,
+    pagination,
+    mode,
+    setMode,
+    loading,
+    loadingMore,
+    error,
+    goToPage,
+    loadMore,
+    retry,
+    rememberPosition,
+  } = usePaginatedList<Event>({
+    storageKey: "events",
+    queryKey,
+    pageSize: EVENT_PAGE_SIZE,
+    initialPage:
+      queryKey === toEventQuery(DEFAULT_EVENT_FILTERS) ? initialPage : undefined,
+    // The calendar and map load their own events
+    paused: !paged,
+    errorMessage: "Failed to fetch events",
+    fetchPage: (page, limit, signal) =>
+      client.events.list({ ...toEventFilters(filters), page, limit }, signal),
+  });
+
+  const navigate = (
+    nextFilters: EventFilterState,
+    nextView: EventViewState,
+    history: "push" | "replace"
+  ) => {
+    const query = toEventsSearch(nextFilters, nextView);
+    router[history](query ? `${pathname}?${query}` : pathname, {
+      scroll: false,
+    });
+  };
+
+  // Typing replaces the history entry; picking a filter adds one
+  const updateFilters = (
+    changes: Partial<EventFilterState>,
+    history: "push" | "replace" = "push"
+  ) => {
+    navigate({ ...filters, ...changes }, view, history);
+  };
+
+  const updateView = (
+    changes: Partial<EventViewState>,
+    history: "push" | "replace" = "push"
+  ) => {
+    navigate(filters, { ...view, ...changes }, history);
+  };
+
+  // Paging through months shouldn't fill the history
+  const navigateCalendar = (day: Date, scale?: CalendarScale) => {
+    updateView({ date: toDayKey(day), ...(scale && { scale }) }, "replace");
+  };
+
+  useEffect(() => {
+    if (debouncedSearch.trim() === filters.search) return;
+    lastSearch.current = debouncedSearch.trim();
+    updateFilters({ search: debouncedSearch }, "replace");
+  }, [debouncedSearch]);
+
+  // Follow the URL when it changes underneath the input (back button,
+  // shared link, "clear filters")
+  useEffect(() => {
+    if (filters.search === lastSearch.current) return;
+    lastSearch.current = filters.search;
+    setSearchInput(filters.search);
+  }, [filters.search]);
+
+  useEffect(() => {
+    client.events
+      .tags()
+      .then(setAvailableTags)
+      .catch((err) => console.error("Failed to fetch event tags:", err));
+  }, []);
+
+  const clearFilters = () => {
+    updateFilters(DEFAULT_EVENT_FILTERS);
+  };
+
+  const handlePageChange = (page: number) => {
+    goToPage(page);
+    listTop.current?.scrollIntoView({ behavior: "smooth" });
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Filters */}
+      <EventFilterPanel
+        filters={filters}
+        searchInput={searchInput}
+        onSearchInputChange={setSearchInput}
+        onChange={updateFilters}
+        onClear={clearFilters}
+        availableTags={availableTags}
+      />
+
+      <div
+        ref={listTop}
+        className="flex items-center justify-between mb-6 scroll-mt-20"
+      >
+        <p className="text-sm text-gray-600">
+          {pagination && paged
+            ? `${pagination.total} event${
+                pagination.total === 1 ? "" : "s"
+              } found`
+            : "\u00a0"}
+        </p>
+        <div className="flex flex-wrap items-center justify-end gap-3">
+          <ToggleGroup
+            label="View"
+            options={EVENT_VIEW_OPTIONS}
+            value={view.view}
+            onChange={(value) => updateView({ view: value })}
+          />
+          {paged && (
+            <>
+              <label htmlFor="event-sort" className="sr-only">
+                Sort events
+              </label>
+              <select
+                id="event-sort"
+                value={filters.sort || "date"}
+                onChange={(e) =>
+                  updateFilters({
+                    sort: e.target.value === "date" ? "" : e.target.value,
+                  })
+                }
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+              >
+                {EVENT_SORT_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <ListModeToggle mode={mode} onChange={setMode} />
+            </>
+          )}
+          <CalendarSubscribe
+            path={toCalendarFeedPath(filters)}
+            description={
+              filters.difficulty || filters.tags
+                ? FILTERED_FEED_DESCRIPTION
+                : FEED_DESCRIPTION
+            }
+          />
+        </div>
+      </div>
+
+      {/* Error State */}
+      {error && paged && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-8 flex items-center justify-between">
+          <p className="text-red-800">{error}</p>
+          <button
+            type="button"
+            onClick={retry}
+            className="text-sm font-medium text-red-800 underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {view.view === "calendar" ? (
+        <EventCalendar
+          filters={toEventFilters(filters)}
+          scale={view.scale}
+          anchor={anchor}
+          onScaleChange={(scale) => updateView({ scale })}
+          onNavigate={navigateCalendar}
+          onEventOpen={rememberPosition}
+        />
+      ) : view.view === "map" ? (
+        <EventMap
+          filters={toEventFilters(filters)}
+          onEventOpen={rememberPosition}
+        />
+      ) : (
+        <>
+          {/* Events */}
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600 mx-auto"></div>
+              <p className="mt-4 text-gray-600">Loading events...</p>
+            </div>
+          ) : events.length === 0 ? (
+            !error && (
+              <div className="text-center py-12">
+                <p className="text-gray-500 text-lg">No events found</p>
+                <p className="text-gray-400 mt-2">
+                  Try adjusting your filters or check back later
+                </p>
+              </div>
+            )
+          ) : view.view === "list" ? (
+            <div className="bg-white rounded-lg shadow-sm divide-y divide-gray-100">
+              {events.map((event) => (
+                <Link
+                  key={event._id}
+                  href={`/events/${event._id}`}
+                  onClick={rememberPosition}
+                  className="flex items-center gap-4 p-4 hover:bg-gray-50 transition-colors"
+                >
+                  <div className="w-14 flex-shrink-0 text-center">
+                    <p className="text-xs font-medium uppercase text-orange-600">
+                      {new Date(event.date).toLocaleDateString("en-US", {
+                        month: "short",
+                      })}
+                    </p>
+                    <p className="text-2xl font-bold text-gray-900">
+                      {new Date(event.date).getDate()}
+                    </p>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold text-gray-900 truncate">
+                      {event.title}
+                    </h3>
+                    <p className="text-sm text-gray-500 truncate">
+                      {event.location.address} · {event.duration}
+                      {origin &&
+                        event.location.coordinates &&
+                        ` · ${formatDistance(
+                          distanceKm(origin, event.location.coordinates)
+                        )} away`}
+                    </p>
+                  </div>
+                  <span
+                    className={`hidden sm:inline px-2 py-1 rounded-full text-xs font-medium ${getDifficultyColor(
+                      event.difficulty
+                    )}`}
+                  >
+                    {event.difficulty}
+                  </span>
+                  <div className="w-28 flex-shrink-0 text-right">
+                    <p className="font-bold text-orange-600">
+                      {formatCurrency(event.price)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {event.isFull
+                        ? "Full"
+                        : `${event.availableSpots} spots left`}
+                    </p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {events.map((event) => (
+                <EventCard
+                  key={event._id}
+                  event={event}
+                  origin={origin}
+                  onOpen={rememberPosition}
+                />
+              ))}
+            </div>
+          )}
+
+          {pagination &&
+            !loading &&
+            (mode === "pages" ? (
+              <Pagination
+                pagination={pagination}
+                onPageChange={handlePageChange}
+              />
+            ) : (
+              events.length > 0 && (
+                <InfiniteScrollTrigger
+                  hasMore={pagination.hasNext && !error}
+                  loading={loadingMore}
+                  onLoadMore={loadMore}
+                  endMessage="You've seen all upcoming events"
+                />
+              )
+            ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EventsList;
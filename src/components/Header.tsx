@@ -4,6 +4,8 @@ import React from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
+import { isStaff } from "@/lib/permissions";
+import { getImageUrl } from "@/lib/utils";
 
 const Header: React.FC = () => {
   const { user, logout } = useAuth();
@@ -105,7 +107,7 @@ const Header: React.FC = () => {
                 <span className="text-sm text-gray-700">
                   Welcome, {user.name}
                 </span>
-                {user.role === "admin" && (
+                {isStaff(user) && (
                   <Link
                     href="/admin"
                     className="bg-orange-600 text-white px-3 py-2 rounded-md text-sm font-medium hover:bg-orange-700"
@@ -114,10 +116,21 @@ const Header: React.FC = () => {
                   </Link>
                 )}
                 <Link
-                  href="/profile"
-                  className="text-gray-700 hover:text-orange-600 px-3 py-2 rounded-md text-sm font-medium"
+                  href="/account"
+                  className="flex items-center text-gray-700 hover:text-orange-600 px-3 py-2 rounded-md text-sm font-medium"
                 >
-                  Profile
+                  {user.profileImage ? (
+                    <img
+                      src={getImageUrl(user.profileImage)}
+                      alt=""
+                      className="w-7 h-7 rounded-full object-cover mr-2"
+                    />
+                  ) : (
+                    <span className="w-7 h-7 rounded-full bg-orange-100 text-orange-600 flex items-center justify-center text-xs font-bold mr-2">
+                      {user.name.charAt(0).toUpperCase()}
+                    </span>
+                  )}
+                  Account
                 </Link>
                 <button
                   onClick={logout}
@@ -0,0 +1,236 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { cn, getImageUrl } from "@/lib/utils";
+import { Event } from "@/types";
+
+type CarouselImage = Event["images"][number];
+
+interface ImageCarouselProps {
+  images: CarouselImage[];
+  // Names the carousel for screen readers, e.g. the event title
+  label: string;
+  // Drawn over the top right corner of the slide, e.g. a difficulty badge
+  badge?: React.ReactNode;
+}
+
+// A horizontal swipe shorter than this is treated as a tap
+const SWIPE_THRESHOLD_PX = 50;
+
+// The primary image first, the rest in upload order
+function orderImages(images: CarouselImage[]) {
+  return [
+    ...images.filter((image) => image.isPrimary),
+    ...images.filter((image) => !image.isPrimary),
+  ];
+}
+
+// Slides next to the current one are fetched ahead so the next swipe
+// doesn't show an empty frame; the others load when first reached
+function withNeighbours(loaded: Set<number>, index: number, count: number) {
+  const next = new Set(loaded);
+  [index - 1, index, index + 1].forEach((slide) =>
+    next.add((slide + count) % count)
+  );
+  return next;
+}
+
+const ImageCarousel: React.FC<ImageCarouselProps> = ({
+  images,
+  label,
+  badge,
+}) => {
+  const slides = orderImages(images);
+  const count = slides.length;
+  const [index, setIndex] = useState(0);
+  const [loaded, setLoaded] = useState(() => new Set([0]));
+  const [fullscreen, setFullscreen] = useState(false);
+  const touchStart = useRef<number | null>(null);
+
+  const show = (slide: number) => setIndex((slide + count) % count);
+  const step = (direction: 1 | -1) =>
+    setIndex((current) => (current + direction + count) % count);
+  const previous = () => step(-1);
+  const next = () => step(1);
+
+  useEffect(() => {
+    if (count === 0) return;
+    setLoaded((current) => withNeighbours(current, index, count));
+  }, [index, count]);
+
+  // Full screen takes over the keyboard and stops the page scrolling
+  useEffect(() => {
+    if (!fullscreen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setFullscreen(false);
+      if (e.key === "ArrowLeft") step(-1);
+      if (e.key === "ArrowRight") step(1);
+    };
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.body.style.overflow = overflow;
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [fullscreen, count]);
+
+  if (count === 0) return null;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (fullscreen) return;
+    if (e.key === "ArrowLeft") {
+      e.preventDefault();
+      previous();
+    } else if (e.key === "ArrowRight") {
+      e.preventDefault();
+      next();
+    } else if (e.key === "Enter" && e.target === e.currentTarget) {
+      setFullscreen(true);
+    }
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStart.current === null) return;
+    const distance = e.changedTouches[0].clientX - touchStart.current;
+    touchStart.current = null;
+    if (Math.abs(distance) < SWIPE_THRESHOLD_PX) return;
+    if (distance > 0) previous();
+    else next();
+  };
+
+  const arrowClass =
+    "absolute top-1/2 -translate-y-1/2 flex h-10 w-10 items-center justify-center rounded-full bg-black/40 text-2xl text-white hover:bg-black/60 focus:outline-none focus:ring-2 focus:ring-white";
+
+  const stage = (
+    <div
+      className={cn(
+        "relative select-none",
+        fullscreen ? "flex-1 min-h-0" : "h-64 md:h-96 bg-gray-900"
+      )}
+      onTouchStart={(e) => {
+        touchStart.current = e.touches[0].clientX;
+      }}
+      onTouchEnd={handleTouchEnd}
+    >
+      {slides.map((image, slide) =>
+        loaded.has(slide) ? (
+          <img
+            key={`${slide}-${image.url}`}
+            src={getImageUrl(image.url)}
+            alt={image.alt}
+            loading={slide === 0 ? "eager" : "lazy"}
+            draggable={false}
+            aria-hidden={slide !== index}
+            className={cn(
+              "absolute inset-0 w-full h-full transition-opacity duration-300",
+              fullscreen ? "object-contain" : "object-cover",
+              slide === index ? "opacity-100" : "opacity-0"
+            )}
+          />
+        ) : null
+      )}
+
+      {badge && !fullscreen && (
+        <div className="absolute top-4 right-4">{badge}</div>
+      )}
+
+      {count > 1 && (
+        <>
+          <button
+            type="button"
+            onClick={previous}
+            aria-label="Previous image"
+            className={cn(arrowClass, "left-4")}
+          >
+            ‹
+          </button>
+          <button
+            type="button"
+            onClick={next}
+            aria-label="Next image"
+            className={cn(arrowClass, "right-4")}
+          >
+            ›
+          </button>
+        </>
+      )}
+
+      {count > 1 && (
+        <span
+          aria-live="polite"
+          className="absolute bottom-4 left-4 rounded-full bg-black/50 px-2.5 py-1 text-xs text-white"
+        >
+          {index + 1} / {count}
+        </span>
+      )}
+      <button
+        type="button"
+        onClick={() => setFullscreen((value) => !value)}
+        aria-label={fullscreen ? "Exit full screen" : "View full screen"}
+        className="absolute bottom-4 right-4 rounded-full bg-black/50 px-3 py-1 text-xs text-white hover:bg-black/70"
+      >
+        {fullscreen ? "✕ Close" : "⛶ Full screen"}
+      </button>
+    </div>
+  );
+
+  const thumbnails = count > 1 && (
+    <div
+      className={cn(
+        "flex space-x-2 overflow-x-auto p-2",
+        fullscreen ? "justify-center" : "bg-gray-100"
+      )}
+    >
+      {slides.map((image, slide) => (
+        <button
+          key={`${slide}-${image.url}`}
+          type="button"
+          onClick={() => show(slide)}
+          aria-label={`Show image ${slide + 1} of ${count}`}
+          aria-current={slide === index}
+          className={cn(
+            "h-14 w-20 flex-shrink-0 overflow-hidden rounded border-2",
+            slide === index
+              ? "border-orange-500"
+              : "border-transparent opacity-70 hover:opacity-100"
+          )}
+        >
+          {/* There are no small versions of the photos, so a thumbnail
+              only shows its image once the slide itself has been fetched */}
+          {loaded.has(slide) ? (
+            <img
+              src={getImageUrl(image.url)}
+              alt=""
+              draggable={false}
+              className="h-full w-full object-cover"
+            />
+          ) : (
+            <span className="flex h-full w-full items-center justify-center bg-gray-300 text-xs text-gray-600">
+              {slide + 1}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div
+      role="region"
+      aria-roledescription="carousel"
+      aria-label={`${label} photos`}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className={cn(
+        "focus:outline-none focus-visible:ring-2 focus-visible:ring-orange-500",
+        fullscreen && "fixed inset-0 z-50 flex flex-col bg-black"
+      )}
+    >
+      {stage}
+      {thumbnails}
+    </div>
+  );
+};
+
+export default ImageCarousel;
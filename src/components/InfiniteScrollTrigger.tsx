@@ -0,0 +1,65 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+
+interface InfiniteScrollTriggerProps {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+  // Shown once every page is loaded
+  endMessage?: string;
+}
+
+// Start loading the next page a little before the end of the list comes
+// into view
+const PRELOAD_MARGIN = "400px";
+
+const InfiniteScrollTrigger: React.FC<InfiniteScrollTriggerProps> = ({
+  hasMore,
+  loading,
+  onLoadMore,
+  endMessage = "You've reached the end of the list",
+}) => {
+  const sentinel = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!element || !hasMore || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: PRELOAD_MARGIN }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasMore, loading]);
+
+  return (
+    <div ref={sentinel} className="flex justify-center mt-10">
+      {loading ? (
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+      ) : hasMore ? (
+        // Fallback for browsers without IntersectionObserver and for
+        // keyboard users
+        <button
+          type="button"
+          onClick={onLoadMore}
+          className="bg-white border border-gray-300 text-gray-700 px-6 py-2 rounded-md hover:bg-gray-50 transition-colors"
+        >
+          Load more
+        </button>
+      ) : (
+        <p className="text-sm text-gray-400">{endMessage}</p>
+      )}
+    </div>
+  );
+};
+
+export default InfiniteScrollTrigger;
@@ -0,0 +1,26 @@
+"use client";
+
+import React from "react";
+import ToggleGroup from "@/components/ToggleGroup";
+import { ListMode } from "@/types";
+
+interface ListModeToggleProps {
+  mode: ListMode;
+  onChange: (mode: ListMode) => void;
+}
+
+const MODES: { value: ListMode; label: string }[] = [
+  { value: "pages", label: "Pages" },
+  { value: "infinite", label: "Infinite scroll" },
+];
+
+const ListModeToggle: React.FC<ListModeToggleProps> = ({ mode, onChange }) => (
+  <ToggleGroup
+    label="Browse by"
+    options={MODES}
+    value={mode}
+    onChange={onChange}
+  />
+);
+
+export default ListModeToggle;
@@ -0,0 +1,194 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import type * as Leaflet from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { Coordinates } from "@/lib/geo";
+import { clusterPoints, getTileSource, isSamePlace } from "@/lib/map";
+import { cn } from "@/lib/utils";
+
+export interface MapMarker {
+  id: string;
+  coordinates: Coordinates;
+  title: string;
+  // Tailwind classes for the pin, e.g. getDifficultyColor(...)
+  colorClass?: string;
+}
+
+interface LocationMapProps {
+  markers: MapMarker[];
+  // Zoom used when there is a single marker to show
+  zoom?: number;
+  // Sets the height; the map fills its width
+  className?: string;
+  label: string;
+  // A pin, or a cluster that can't be split any further, was clicked
+  onSelect?: (markers: MapMarker[]) => void;
+}
+
+// Shown before anything is placed on the map
+const WORLD_CENTER: Leaflet.LatLngTuple = [20, 0];
+const WORLD_ZOOM = 2;
+
+// How far fitting several markers may zoom in
+const FIT_MAX_ZOOM = 12;
+
+// Pins closer than this many pixels are merged into one cluster
+const CLUSTER_CELL_PX = 60;
+
+function toLatLng({ latitude, longitude }: Coordinates): Leaflet.LatLngTuple {
+  return [latitude, longitude];
+}
+
+function pinIcon(L: typeof Leaflet, marker: MapMarker) {
+  return L.divIcon({
+    className: "",
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+    html: `<span class="${cn(
+      "flex h-7 w-7 items-center justify-center rounded-full border-2 border-white shadow-md text-sm",
+      marker.colorClass || "bg-orange-600 text-white"
+    )}" aria-hidden="true">●</span>`,
+  });
+}
+
+function clusterIcon(L: typeof Leaflet, count: number) {
+  const size = count < 10 ? 36 : 44;
+  return L.divIcon({
+    className: "",
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    html: `<span class="flex h-full w-full items-center justify-center rounded-full border-4 border-orange-200 bg-orange-600 text-sm font-semibold text-white shadow-md">${count}</span>`,
+  });
+}
+
+// A Leaflet map with clustered pins. Leaflet touches `window` on import, so
+// it is loaded in the browser only.
+const LocationMap: React.FC<LocationMapProps> = ({
+  markers,
+  zoom = 13,
+  className,
+  label,
+  onSelect,
+}) => {
+  const container = useRef<HTMLDivElement>(null);
+  const leaflet = useRef<typeof Leaflet | null>(null);
+  const [map, setMap] = useState<Leaflet.Map | null>(null);
+  const [failed, setFailed] = useState(false);
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  useEffect(() => {
+    let cancelled = false;
+    let instance: Leaflet.Map | undefined;
+    import("leaflet")
+      .then((L) => {
+        if (cancelled || !container.current) return;
+        const source = getTileSource();
+        leaflet.current = L;
+        instance = L.map(container.current, {
+          center: WORLD_CENTER,
+          zoom: WORLD_ZOOM,
+          maxZoom: source.maxZoom,
+          // Scrolling the page shouldn't zoom the map
+          scrollWheelZoom: false,
+        });
+        L.tileLayer(source.url, {
+          attribution: source.attribution,
+          maxZoom: source.maxZoom,
+        }).addTo(instance);
+        setMap(instance);
+      })
+      .catch((err) => {
+        console.error("Failed to load the map:", err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+      instance?.remove();
+    };
+  }, []);
+
+  // Frame the markers whenever the set changes
+  useEffect(() => {
+    const L = leaflet.current;
+    if (!map || !L) return;
+    if (markers.length === 0) {
+      map.setView(WORLD_CENTER, WORLD_ZOOM);
+    } else if (isSamePlace(markers.map((marker) => marker.coordinates))) {
+      map.setView(toLatLng(markers[0].coordinates), zoom);
+    } else {
+      map.fitBounds(
+        L.latLngBounds(markers.map((marker) => toLatLng(marker.coordinates))),
+        { padding: [40, 40], maxZoom: FIT_MAX_ZOOM }
+      );
+    }
+  }, [map, markers, zoom]);
+
+  // Clusters depend on the zoom level, so they are rebuilt after each zoom
+  useEffect(() => {
+    const L = leaflet.current;
+    if (!map || !L) return;
+    const layer = L.layerGroup().addTo(map);
+
+    const render = () => {
+      layer.clearLayers();
+      const level = map.getZoom();
+      const clusters = clusterPoints(
+        markers.map((marker) => ({
+          ...map.project(toLatLng(marker.coordinates), level),
+          item: marker,
+        })),
+        CLUSTER_CELL_PX
+      );
+
+      clusters.forEach(({ x, y, items }) => {
+        const single = items.length === 1;
+        const pin = L.marker(map.unproject([x, y], level), {
+          icon: single ? pinIcon(L, items[0]) : clusterIcon(L, items.length),
+          title: single ? items[0].title : `${items.length} locations`,
+          riseOnHover: true,
+        });
+        pin.on("click", () => {
+          const places = items.map((item) => item.coordinates);
+          if (single || isSamePlace(places) || level >= map.getMaxZoom()) {
+            onSelectRef.current?.(items);
+          } else {
+            // Always zoom in at least one level so the cluster splits
+            const bounds = L.latLngBounds(places.map(toLatLng));
+            const fit = map.getBoundsZoom(bounds, false, L.point(40, 40));
+            map.setView(bounds.getCenter(), Math.max(fit, level + 1));
+          }
+        });
+        layer.addLayer(pin);
+      });
+    };
+
+    render();
+    map.on("zoomend", render);
+    return () => {
+      map.off("zoomend", render);
+      layer.remove();
+    };
+  }, [map, markers]);
+
+  return (
+    <div
+      className={cn("relative z-0 overflow-hidden bg-gray-100", className)}
+    >
+      <div
+        ref={container}
+        role="region"
+        aria-label={label}
+        className="h-full w-full"
+      />
+      {failed && (
+        <p className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">
+          The map could not be loaded
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LocationMap;
@@ -0,0 +1,92 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+import { Pagination as PaginationInfo } from "@/types";
+
+interface PaginationProps {
+  pagination: PaginationInfo;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+}
+
+// The first and last page, the current one and its neighbours; gaps become
+// an ellipsis
+function visiblePages(current: number, total: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+const Pagination: React.FC<PaginationProps> = ({
+  pagination,
+  onPageChange,
+  disabled = false,
+}) => {
+  const { currentPage, totalPages, hasNext, hasPrev } = pagination;
+  if (totalPages <= 1) return null;
+
+  const buttonClassName =
+    "min-w-[2.5rem] px-3 py-2 rounded-md text-sm font-medium border transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <nav
+      aria-label="Pagination"
+      className="flex items-center justify-center flex-wrap gap-2 mt-10"
+    >
+      <button
+        type="button"
+        onClick={() => onPageChange(currentPage - 1)}
+        disabled={disabled || !hasPrev}
+        className={cn(
+          buttonClassName,
+          "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+        )}
+      >
+        Previous
+      </button>
+      {visiblePages(currentPage, totalPages).map((page, index) =>
+        page === null ? (
+          <span key={`gap-${index}`} className="px-2 text-gray-400">
+            …
+          </span>
+        ) : (
+          <button
+            key={page}
+            type="button"
+            onClick={() => onPageChange(page)}
+            disabled={disabled}
+            aria-current={page === currentPage ? "page" : undefined}
+            className={cn(
+              buttonClassName,
+              page === currentPage
+                ? "bg-orange-600 border-orange-600 text-white"
+                : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+            )}
+          >
+            {page}
+          </button>
+        )
+      )}
+      <button
+        type="button"
+        onClick={() => onPageChange(currentPage + 1)}
+        disabled={disabled || !hasNext}
+        className={cn(
+          buttonClassName,
+          "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+        )}
+      >
+        Next
+      </button>
+    </nav>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+import * as client from "@/lib/client";
+import { Event } from "@/types";
+import {
+  formatCurrency,
+  formatDate,
+  getDifficultyColor,
+  getImageUrl,
+} from "@/lib/utils";
+
+interface RelatedEventsProps {
+  eventId: string;
+  limit?: number;
+}
+
+// "You might also like" under an event; points to the full list when there
+// are no suggestions or they couldn't be loaded
+const RelatedEvents: React.FC<RelatedEventsProps> = ({
+  eventId,
+  limit = 4,
+}) => {
+  const { user } = useAuth();
+  // null until the first answer arrives
+  const [events, setEvents] = useState<Event[] | null>(null);
+
+  // Refetched on sign in or out, since the ranking follows the member
+  useEffect(() => {
+    const controller = new AbortController();
+    client.events
+      .related(eventId, limit, controller.signal)
+      .then(setEvents)
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          console.error("Failed to fetch related events:", err);
+          setEvents([]);
+        }
+      });
+    return () => controller.abort();
+  }, [eventId, limit, user?.id]);
+
+  if (events === null) return null;
+
+  return (
+    <section className="mt-12" aria-labelledby="related-events">
+      <h2 id="related-events" className="text-2xl font-bold text-gray-900 mb-6">
+        You might also like
+      </h2>
+      {events.length === 0 ? (
+        <p className="text-gray-600">
+          No similar events to suggest right now.{" "}
+          <Link href="/events" className="text-orange-600 hover:text-orange-700">
+            Browse all upcoming events
+          </Link>
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+          {events.map((event) => {
+            const image =
+              event.images.find((item) => item.isPrimary) || event.images[0];
+            return (
+              <Link
+                key={event._id}
+                href={`/events/${event._id}`}
+                className="bg-white rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-shadow"
+              >
+                <div className="h-32 bg-gray-200 relative">
+                  {image ? (
+                    <img
+                      src={getImageUrl(image.url)}
+                      alt={image.alt}
+                      loading="lazy"
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-gray-400">
+                      <span className="text-3xl">🏔️</span>
+                    </div>
+                  )}
+                  <span
+                    className={`absolute top-2 right-2 px-2 py-1 rounded-full text-xs font-medium ${getDifficultyColor(
+                      event.difficulty
+                    )}`}
+                  >
+                    {event.difficulty}
+                  </span>
+                </div>
+                <div className="p-4">
+                  <h3 className="font-semibold text-gray-900 truncate">
+                    {event.title}
+                  </h3>
+                  <p className="text-sm text-gray-500 truncate">
+                    {formatDate(event.date)} · {event.location.address}
+                  </p>
+                  <div className="mt-2 flex items-center justify-between text-sm">
+                    <span className="font-bold text-orange-600">
+                      {formatCurrency(event.price)}
+                    </span>
+                    <span className="text-gray-500">
+                      {event.isFull
+                        ? "Full"
+                        : `${event.availableSpots} spots left`}
+                    </span>
+                  </div>
+                </div>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RelatedEvents;
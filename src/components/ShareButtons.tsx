@@ -0,0 +1,69 @@
+"use client";
+
+import React from "react";
+import { toast } from "react-hot-toast";
+import { absoluteUrl } from "@/lib/seo";
+
+interface ShareButtonsProps {
+  // Path on this site, e.g. /events/<id>
+  path: string;
+  title: string;
+  // A line about the page for the email body, e.g. the date and place
+  summary?: string;
+}
+
+// Links always point at the public site address, so WhatsApp and mail
+// clients fetch the page's preview card even when shared from a staging or
+// local copy
+const ShareButtons: React.FC<ShareButtonsProps> = ({
+  path,
+  title,
+  summary,
+}) => {
+  const url = absoluteUrl(path);
+  const whatsAppUrl = `https://wa.me/?text=${encodeURIComponent(
+    `${title} ${url}`
+  )}`;
+  const emailUrl = `mailto:?subject=${encodeURIComponent(
+    title
+  )}&body=${encodeURIComponent(
+    [summary, url].filter(Boolean).join("\n\n")
+  )}`;
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const buttonClass =
+    "inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium text-gray-700 mr-1">Share:</span>
+      <button type="button" onClick={copyLink} className={buttonClass}>
+        <span className="mr-2">🔗</span>
+        Copy link
+      </button>
+      <a
+        href={whatsAppUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={buttonClass}
+      >
+        <span className="mr-2">💬</span>
+        WhatsApp
+      </a>
+      <a href={emailUrl} className={buttonClass}>
+        <span className="mr-2">✉️</span>
+        Email
+      </a>
+    </div>
+  );
+};
+
+export default ShareButtons;
@@ -0,0 +1,46 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+
+interface ToggleGroupProps<T extends string> {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+// A row of mutually exclusive buttons, e.g. grid / list / calendar
+function ToggleGroup<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: ToggleGroupProps<T>) {
+  return (
+    <div
+      role="group"
+      aria-label={label}
+      className="inline-flex rounded-md border border-gray-300 bg-white p-0.5"
+    >
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          aria-pressed={value === option.value}
+          className={cn(
+            "px-3 py-1.5 rounded text-sm font-medium transition-colors",
+            value === option.value
+              ? "bg-orange-600 text-white"
+              : "text-gray-600 hover:text-gray-900"
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default ToggleGroup;
@@ -0,0 +1,367 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { toast } from "react-hot-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import * as client from "@/lib/client";
+import { getErrorMessage } from "@/lib/utils";
+import { TwoFactorSetup, TwoFactorStatus } from "@/types";
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500";
+
+// Shown once after enabling or regenerating; the server only keeps them
+// for checking
+const BackupCodeList: React.FC<{ codes: string[]; onDone: () => void }> = ({
+  codes,
+  onDone,
+}) => {
+  const text = codes.join("\n");
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success("Backup codes copied");
+    } catch {
+      toast.error("Could not copy the codes");
+    }
+  };
+
+  const downloadCodes = () => {
+    const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "offroad-backup-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-800">
+        Save these backup codes somewhere safe. Each one signs you in once if
+        you lose your authenticator, and they will not be shown again.
+      </div>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code} className="px-3 py-2 bg-gray-50 rounded-md text-center">
+            {code}
+          </li>
+        ))}
+      </ul>
+      <div className="flex space-x-3">
+        <button
+          type="button"
+          onClick={copyCodes}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+        >
+          Copy
+        </button>
+        <button
+          type="button"
+          onClick={downloadCodes}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+        >
+          Download
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="bg-orange-600 text-white px-4 py-2 rounded-md hover:bg-orange-700"
+        >
+          I&apos;ve saved them
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TwoFactorSettings: React.FC = () => {
+  const { enableTwoFactor, disableTwoFactor } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [mode, setMode] = useState<"idle" | "regenerate" | "disable">("idle");
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  useEffect(() => {
+    if (!setup) {
+      setQrCode(null);
+      return;
+    }
+    QRCode.toDataURL(setup.otpauthUrl, { width: 200, margin: 1 })
+      .then(setQrCode)
+      .catch(() => setQrCode(null));
+  }, [setup]);
+
+  const fetchStatus = async () => {
+    try {
+      setStatus(await client.account.twoFactor.status());
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to load two-factor settings"));
+    }
+  };
+
+  const resetForm = () => {
+    setMode("idle");
+    setCode("");
+    setPassword("");
+  };
+
+  const startSetup = async () => {
+    setBusy(true);
+    try {
+      setSetup(await client.account.twoFactor.setup());
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Could not start two-factor setup"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      setBackupCodes(await enableTwoFactor(code));
+      setSetup(null);
+      resetForm();
+      fetchStatus();
+    } catch (err) {
+      // Error is handled in AuthContext
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const regenerateCodes = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      setBackupCodes(
+        await client.account.twoFactor.regenerateBackupCodes(code)
+      );
+      toast.success("New backup codes generated");
+      resetForm();
+      fetchStatus();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Could not generate backup codes"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const disable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      await disableTwoFactor({ password, code });
+      resetForm();
+      fetchStatus();
+    } catch (err) {
+      // Error is handled in AuthContext
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const codeInput = (
+    <div>
+      <label
+        htmlFor="twoFactorCode"
+        className="block text-sm font-medium text-gray-700 mb-1"
+      >
+        {mode === "disable"
+          ? "Authentication or backup code"
+          : "Authentication code"}
+      </label>
+      <input
+        id="twoFactorCode"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        required
+        inputMode={mode === "disable" ? "text" : "numeric"}
+        autoComplete="one-time-code"
+        className={`${inputClassName} tracking-widest`}
+        placeholder="123456"
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 space-y-4 max-w-xl">
+      <div>
+        <h2 className="text-xl font-semibold flex items-center">
+          Two-Factor Authentication
+          {status && (
+            <span
+              className={`ml-3 px-2 py-0.5 text-xs rounded-full ${
+                status.enabled
+                  ? "bg-green-100 text-green-800"
+                  : "bg-gray-100 text-gray-800"
+              }`}
+            >
+              {status.enabled ? "On" : "Off"}
+            </span>
+          )}
+        </h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Ask for a code from an authenticator app, such as Google
+          Authenticator or 1Password, whenever you sign in.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {status?.required && !status.enabled && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-800">
+          Your role requires two-factor authentication. Set it up to use the
+          admin tools.
+        </div>
+      )}
+
+      {backupCodes ? (
+        <BackupCodeList codes={backupCodes} onDone={() => setBackupCodes(null)} />
+      ) : setup ? (
+        <form onSubmit={confirmSetup} className="space-y-4">
+          <ol className="list-decimal list-inside text-sm text-gray-700 space-y-1">
+            <li>Scan this QR code with your authenticator app.</li>
+            <li>Enter the 6-digit code it shows to finish.</li>
+          </ol>
+          <div className="flex items-center space-x-6">
+            {qrCode ? (
+              <img
+                src={qrCode}
+                alt="Authenticator QR code"
+                className="w-40 h-40 border rounded-md"
+              />
+            ) : (
+              <div className="w-40 h-40 bg-gray-100 rounded-md" />
+            )}
+            <div className="text-sm text-gray-600">
+              <p>Can&apos;t scan it? Enter this key instead:</p>
+              <p className="mt-1 font-mono text-gray-900 break-all">
+                {setup.secret.match(/.{1,4}/g)?.join(" ")}
+              </p>
+            </div>
+          </div>
+          {codeInput}
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => {
+                setSetup(null);
+                resetForm();
+              }}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy}
+              className="bg-orange-600 text-white px-6 py-2 rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy ? "Verifying..." : "Enable"}
+            </button>
+          </div>
+        </form>
+      ) : status?.enabled && mode !== "idle" ? (
+        <form
+          onSubmit={mode === "disable" ? disable : regenerateCodes}
+          className="space-y-4"
+        >
+          {mode === "disable" && (
+            <div>
+              <label
+                htmlFor="twoFactorPassword"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Current Password
+              </label>
+              <input
+                id="twoFactorPassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                autoComplete="current-password"
+                className={inputClassName}
+              />
+            </div>
+          )}
+          {codeInput}
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy}
+              className={
+                mode === "disable"
+                  ? "bg-red-600 text-white px-6 py-2 rounded-md hover:bg-red-700 disabled:opacity-50"
+                  : "bg-orange-600 text-white px-6 py-2 rounded-md hover:bg-orange-700 disabled:opacity-50"
+              }
+            >
+              {mode === "disable" ? "Turn off" : "Generate new codes"}
+            </button>
+          </div>
+        </form>
+      ) : status?.enabled ? (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            {status.backupCodesRemaining} backup code
+            {status.backupCodesRemaining === 1 ? "" : "s"} left
+          </p>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setMode("regenerate")}
+              className="px-4 py-2 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-50"
+            >
+              New backup codes
+            </button>
+            {!status.required && (
+              <button
+                onClick={() => setMode("disable")}
+                className="px-4 py-2 border border-red-300 text-red-700 text-sm rounded-md hover:bg-red-50"
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+        </div>
+      ) : status ? (
+        <div className="flex justify-end">
+          <button
+            onClick={startSetup}
+            disabled={busy}
+            className="bg-orange-600 text-white px-6 py-2 rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy ? "Starting..." : "Set up two-factor"}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
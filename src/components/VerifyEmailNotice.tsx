@@ -0,0 +1,55 @@
+"use client";
+
+import React, { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+
+interface VerifyEmailNoticeProps {
+  message?: string;
+}
+
+const VerifyEmailNotice: React.FC<VerifyEmailNoticeProps> = ({
+  message = "Please verify your email address to continue.",
+}) => {
+  const { user, resendVerification } = useAuth();
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      await resendVerification();
+      setSent(true);
+    } catch (error) {
+      // Error is handled in AuthContext
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+      <h2 className="text-lg font-semibold text-yellow-900">
+        Verify your email address
+      </h2>
+      <p className="mt-2 text-yellow-800">{message}</p>
+      <p className="mt-2 text-sm text-yellow-700">
+        We sent a verification link to <strong>{user?.email}</strong>. If the
+        address is wrong, contact us to have it corrected.
+      </p>
+      <button
+        type="button"
+        onClick={handleResend}
+        disabled={sending || sent}
+        className="mt-4 bg-orange-600 text-white px-4 py-2 rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {sending
+          ? "Sending..."
+          : sent
+          ? "Verification email sent"
+          : "Resend verification email"}
+      </button>
+    </div>
+  );
+};
+
+export default VerifyEmailNotice;
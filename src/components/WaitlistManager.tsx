@@ -0,0 +1,239 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import * as client from "@/lib/client";
+import { can } from "@/lib/permissions";
+import { AdminWaitlist, AdminWaitlistEntry } from "@/types";
+import { cn, formatDateTime, getErrorMessage } from "@/lib/utils";
+import { toast } from "react-hot-toast";
+
+interface WaitlistManagerProps {
+  eventId: string;
+}
+
+const closedStatusColors: Record<string, string> = {
+  claimed: "bg-green-100 text-green-800",
+  expired: "bg-yellow-100 text-yellow-800",
+  left: "bg-gray-100 text-gray-800",
+};
+
+// The waitlist tab of the admin registrations page for one event
+const WaitlistManager: React.FC<WaitlistManagerProps> = ({ eventId }) => {
+  const { user } = useAuth();
+  const canUpdate = can(user, "update", "registrations");
+  const [waitlist, setWaitlist] = useState<AdminWaitlist | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchWaitlist();
+  }, [eventId]);
+
+  const fetchWaitlist = async () => {
+    try {
+      setLoading(true);
+      setWaitlist(await client.admin.waitlist.list(eventId));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to fetch the waitlist"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const entries = waitlist?.entries ?? [];
+  const waiting = entries
+    .filter((entry) => entry.status === "waiting")
+    .sort((a, b) => a.position! - b.position!);
+  const offered = entries.filter((entry) => entry.status === "offered");
+  const closed = entries.filter(
+    (entry) => entry.status !== "waiting" && entry.status !== "offered"
+  );
+
+  const move = async (index: number, direction: 1 | -1) => {
+    const order = waiting.map((entry) => entry._id);
+    const target = index + direction;
+    [order[index], order[target]] = [order[target], order[index]];
+    setSaving(true);
+    try {
+      await client.admin.waitlist.reorder(eventId, order);
+      await fetchWaitlist();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Failed to reorder the waitlist"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const promote = async (entry: AdminWaitlistEntry) => {
+    const full = waitlist!.event.isFull;
+    const message = full
+      ? `Offer ${entry.user.name} a spot? The event is full, so this ` +
+        "takes it over capacity."
+      : `Offer ${entry.user.name} a spot now?`;
+    if (!confirm(message)) return;
+    setSaving(true);
+    try {
+      await client.admin.waitlist.promote(entry._id);
+      toast.success(`Spot offered to ${entry.user.name}`);
+      await fetchWaitlist();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Failed to offer the spot"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && !waitlist) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !waitlist) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-4">
+        <p className="text-red-800">{error}</p>
+      </div>
+    );
+  }
+
+  const { event } = waitlist;
+  const promoteButton = (entry: AdminWaitlistEntry) =>
+    canUpdate && (
+      <button
+        type="button"
+        onClick={() => promote(entry)}
+        disabled={saving}
+        className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
+      >
+        Offer spot
+      </button>
+    );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900">{event.title}</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          {event.currentParticipants}/{event.maxParticipants} registered
+          {offered.length > 0 && `, ${offered.length} held for offers`}.
+          Free spots are offered to people in the order below.
+        </p>
+      </div>
+
+      {offered.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h3 className="font-semibold text-gray-900 mb-4">Offered</h3>
+          <ul className="divide-y">
+            {offered.map((entry) => (
+              <li key={entry._id} className="py-3 text-sm">
+                <p className="font-medium text-gray-900">{entry.user.name}</p>
+                <p className="text-gray-600">{entry.user.email}</p>
+                <p className="text-gray-500">
+                  Offered {formatDateTime(entry.offeredAt!)}, expires{" "}
+                  {formatDateTime(entry.offerExpiresAt!)}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h3 className="font-semibold text-gray-900 mb-4">
+          Waiting ({waiting.length})
+        </h3>
+        {waiting.length === 0 ? (
+          <p className="text-sm text-gray-500">Nobody is waiting.</p>
+        ) : (
+          <ol className="divide-y">
+            {waiting.map((entry, index) => (
+              <li
+                key={entry._id}
+                className="py-3 flex items-center justify-between text-sm"
+              >
+                <div className="flex items-center space-x-4">
+                  <span className="w-8 text-lg font-semibold text-gray-400">
+                    #{entry.position}
+                  </span>
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {entry.user.name}
+                    </p>
+                    <p className="text-gray-600">{entry.user.email}</p>
+                    <p className="text-gray-500">
+                      Joined {formatDateTime(entry.createdAt)}
+                    </p>
+                  </div>
+                </div>
+                {canUpdate && (
+                  <div className="flex items-center space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => move(index, -1)}
+                      disabled={saving || index === 0}
+                      aria-label={`Move ${entry.user.name} up`}
+                      className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(index, 1)}
+                      disabled={saving || index === waiting.length - 1}
+                      aria-label={`Move ${entry.user.name} down`}
+                      className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40"
+                    >
+                      ↓
+                    </button>
+                    {promoteButton(entry)}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {closed.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h3 className="font-semibold text-gray-900 mb-4">History</h3>
+          <ul className="divide-y">
+            {closed.map((entry) => (
+              <li
+                key={entry._id}
+                className="py-3 flex items-center justify-between text-sm"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {entry.user.name}
+                    <span
+                      className={cn(
+                        "ml-2 px-2 py-0.5 text-xs rounded-full",
+                        closedStatusColors[entry.status]
+                      )}
+                    >
+                      {entry.status}
+                    </span>
+                  </p>
+                  <p className="text-gray-600">{entry.user.email}</p>
+                  <p className="text-gray-500">
+                    Updated {formatDateTime(entry.updatedAt)}
+                  </p>
+                </div>
+                {entry.status === "expired" && promoteButton(entry)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WaitlistManager;
@@ -0,0 +1,169 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import * as client from "@/lib/client";
+import { Event, WaitlistState } from "@/types";
+import { formatDateTime, getErrorMessage, signInUrl } from "@/lib/utils";
+import { toast } from "react-hot-toast";
+
+interface WaitlistPanelProps {
+  event: Event;
+}
+
+// Shown while registration is closed: lets members queue for a full event
+// and claim the spot they are offered when someone cancels
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ event }) => {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [state, setState] = useState<WaitlistState | null>(null);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setState(null);
+      return;
+    }
+    let cancelled = false;
+    client.waitlist
+      .get(event._id)
+      .then((next) => !cancelled && setState(next))
+      .catch(() => !cancelled && setState(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [event._id, user]);
+
+  const entry = state?.entry ?? null;
+  const canJoin =
+    event.status === "active" &&
+    event.isFull &&
+    new Date(event.registrationDeadline) >= new Date();
+  const registerPath = `/events/${event._id}/register`;
+
+  const update = async (
+    action: () => Promise<WaitlistState>,
+    success: string,
+    failure: string
+  ) => {
+    setUpdating(true);
+    try {
+      setState(await action());
+      toast.success(success);
+    } catch (err) {
+      toast.error(getErrorMessage(err, failure));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const join = () => {
+    if (!user) {
+      router.push(signInUrl(`/events/${event._id}`));
+      return;
+    }
+    update(
+      () => client.waitlist.join(event._id),
+      "You joined the waitlist",
+      "Failed to join the waitlist"
+    );
+  };
+
+  const leave = (prompt: string) => {
+    if (!confirm(prompt)) return;
+    update(
+      () => client.waitlist.leave(event._id),
+      "You left the waitlist",
+      "Failed to leave the waitlist"
+    );
+  };
+
+  if (entry?.status === "offered") {
+    return (
+      <div className="mt-4 rounded-lg border border-green-200 bg-green-50 p-4">
+        <h3 className="font-semibold text-green-900">A spot opened up!</h3>
+        <p className="mt-1 text-sm text-green-800">
+          We are holding a place for you until{" "}
+          {formatDateTime(entry.offerExpiresAt!)}. After that it goes to the
+          next person on the waitlist.
+        </p>
+        <div className="mt-4 flex flex-wrap gap-3">
+          <button
+            type="button"
+            onClick={() => router.push(registerPath)}
+            className="bg-orange-600 text-white px-6 py-2 rounded-md hover:bg-orange-700"
+          >
+            Claim your spot
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              leave("Decline this spot? It will be offered to someone else.")
+            }
+            disabled={updating}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Decline
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (entry?.status === "waiting") {
+    return (
+      <div className="mt-4 rounded-lg border border-orange-200 bg-orange-50 p-4">
+        <h3 className="font-semibold text-orange-900">
+          You are #{entry.position} on the waitlist
+        </h3>
+        <p className="mt-1 text-sm text-orange-800">
+          {state!.waiting === 1
+            ? "You are the only one waiting."
+            : `${state!.waiting} people are waiting.`}{" "}
+          If a spot opens up we will email you, and you will have a limited
+          time to claim it.
+        </p>
+        <button
+          type="button"
+          onClick={() => leave("Leave the waitlist for this event?")}
+          disabled={updating}
+          className="mt-4 px-4 py-2 border border-gray-300 text-gray-700 text-sm rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          {updating ? "Leaving..." : "Leave waitlist"}
+        </button>
+      </div>
+    );
+  }
+
+  if (!canJoin) return null;
+
+  return (
+    <div className="mt-4">
+      {entry?.status === "expired" && (
+        <p className="text-sm text-gray-600 mb-2">
+          The spot we offered you expired before it was claimed. You can join
+          the waitlist again.
+        </p>
+      )}
+      <button
+        type="button"
+        onClick={join}
+        disabled={updating}
+        className="w-full md:w-auto border border-orange-600 text-orange-600 px-8 py-3 rounded-md hover:bg-orange-50 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {updating ? "Joining..." : "Join the waitlist"}
+      </button>
+      <p className="text-sm text-gray-500 mt-2">
+        {state && state.waiting > 0
+          ? `${state.waiting} ${
+              state.waiting === 1 ? "person is" : "people are"
+            } waiting. `
+          : ""}
+        We will offer you a spot if one opens up.
+      </p>
+    </div>
+  );
+};
+
+export default WaitlistPanel;
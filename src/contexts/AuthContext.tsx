@@ -4,16 +4,55 @@ import React, {
   createContext,
   useContext,
   useEffect,
+  useRef,
   useState,
   useMemo,
 } from "react";
-import Cookies from "js-cookie";
 import toast from "react-hot-toast";
-import api from "@/lib/api";
-import { User, AuthContextType } from "@/types";
+import { setSessionUser, subscribeToSessionChanges } from "@/lib/api";
+import {
+  AuthSyncEvent,
+  broadcastAuthChange,
+  subscribeToAuthChanges,
+} from "@/lib/authSync";
+import * as client from "@/lib/client";
+import { getErrorMessage, getErrorStatus } from "@/lib/utils";
+import {
+  User,
+  AcceptInviteData,
+  AuthContextType,
+  AuthSession,
+  LoginResult,
+  PasswordChangeData,
+  ProfileUpdateData,
+  RegisterData,
+  SessionInfo,
+  TwoFactorDisableData,
+  TwoFactorMethod,
+} from "@/types";
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// How long before the session ends the "stay signed in" prompt appears
+const EXPIRY_WARNING_MS = 2 * 60 * 1000;
+const EXPIRY_TOAST_ID = "session-expiry";
+
+// setTimeout overflows past ~24.8 days, so longer waits are chained
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+function runAt(time: number, callback: () => void): () => void {
+  let handle: ReturnType<typeof setTimeout>;
+  const schedule = () => {
+    const delay = time - Date.now();
+    handle =
+      delay > MAX_TIMEOUT_MS
+        ? setTimeout(schedule, MAX_TIMEOUT_MS)
+        : setTimeout(callback, Math.max(delay, 0));
+  };
+  schedule();
+  return () => clearTimeout(handle);
+}
+
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -28,44 +67,178 @@ interface AuthProviderProps {
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
-  const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(
+    null
+  );
+  // Held between the password and code steps of a two-factor sign-in; a ref
+  // so the memoized context methods always read the latest value
+  const twoFactorChallenge = useRef<string | null>(null);
+  // Whether the BFF holds a refresh token, i.e. "stay signed in" can work
+  const canRefresh = useRef(false);
+  const expiresAtRef = useRef<number | null>(null);
 
-  // Load user from cookies on mount
-  useEffect(() => {
-    const storedToken = Cookies.get("token");
-    const storedUser = Cookies.get("user");
-
-    if (storedToken && storedUser) {
-      try {
-        setToken(storedToken);
-        setUser(JSON.parse(storedUser));
-      } catch (error) {
-        console.error("Error parsing stored user:", error);
-        Cookies.remove("token");
-        Cookies.remove("user");
-      }
+  const applySession = (session: SessionInfo) => {
+    setUser(session.user);
+    setSessionUser(session.user);
+    setSessionExpiresAt(session.expiresAt);
+    canRefresh.current = session.canRefresh;
+  };
+
+  // Ask the BFF for the session, which another tab may have changed
+  const loadSession = async () => {
+    try {
+      applySession(await client.session.get());
+    } catch (error) {
+      console.error("Error loading session:", error);
+      applySession({ user: null, expiresAt: null, canRefresh: false });
     }
-    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadSession().finally(() => setIsLoading(false));
   }, []);
 
-  const login = async (email: string, password: string) => {
+  // Follow sessions extended or ended by the BFF while proxying a request
+  useEffect(
+    () =>
+      subscribeToSessionChanges((change) => {
+        if (change.type === "end") {
+          applySession({ user: null, expiresAt: null, canRefresh: false });
+          broadcastAuthChange("logout");
+          return;
+        }
+        if (change.expiresAt === expiresAtRef.current) return;
+        setSessionExpiresAt(change.expiresAt);
+        broadcastAuthChange("refresh");
+      }),
+    []
+  );
+
+  // Logins, logouts and refreshes in other tabs
+  useEffect(
+    () =>
+      subscribeToAuthChanges((event) => {
+        loadSession();
+        if (event === "logout" || event === "refresh") {
+          toast.dismiss(EXPIRY_TOAST_ID);
+        }
+      }),
+    []
+  );
+
+  useEffect(() => {
+    expiresAtRef.current = sessionExpiresAt;
+  }, [sessionExpiresAt]);
+
+  // Warn shortly before the session ends and sign out once it has
+  useEffect(() => {
+    if (!sessionExpiresAt) return;
+    const cancelWarning = runAt(
+      sessionExpiresAt - EXPIRY_WARNING_MS,
+      showExpiryWarning
+    );
+    const cancelExpiry = runAt(sessionExpiresAt, expireSession);
+    return () => {
+      cancelWarning();
+      cancelExpiry();
+    };
+  }, [sessionExpiresAt]);
+
+  // Header and other consumers read the user from here, so keep state, the
+  // permission checks and other tabs in step; the BFF updates its cookie
+  const saveUser = (nextUser: User, event: AuthSyncEvent = "update") => {
+    setUser(nextUser);
+    setSessionUser(nextUser);
+    broadcastAuthChange(event);
+  };
+
+  const startSession = (session: AuthSession) => {
+    setSessionExpiresAt(session.expiresAt);
+    canRefresh.current = session.canRefresh;
+    saveUser(session.user, "login");
+  };
+
+  // Other tabs are told once the cookies are gone, so they don't reload the
+  // session that is being ended
+  const endSession = async () => {
+    applySession({ user: null, expiresAt: null, canRefresh: false });
+    toast.dismiss(EXPIRY_TOAST_ID);
     try {
-      setIsLoading(true);
-      const response = await api.post("/auth/login", { email, password });
+      await client.session.end();
+    } catch (error) {
+      console.error("Error ending session:", error);
+    }
+    broadcastAuthChange("logout");
+  };
 
-      const { token: newToken, user: newUser } = response.data;
+  const expireSession = async () => {
+    // Another tab may have extended the session without this one hearing
+    const current = await client.session.get().catch(() => null);
+    if (current?.user) {
+      applySession(current);
+      return;
+    }
+    endSession();
+    toast.error("Your session has expired, please sign in again");
+  };
 
-      setToken(newToken);
-      setUser(newUser);
+  const staySignedIn = async () => {
+    toast.dismiss(EXPIRY_TOAST_ID);
+    try {
+      // The new expiry reschedules the warning and expiry timers
+      applySession(await client.session.refresh());
+      toast.success("You're still signed in");
+    } catch (error) {
+      expireSession();
+    }
+  };
+
+  const showExpiryWarning = () => {
+    const refreshable = canRefresh.current;
+    toast(
+      (t) => (
+        <div className="flex items-center space-x-3">
+          <span className="text-sm">
+            {refreshable
+              ? "Your session is about to expire."
+              : "Your session is about to expire. Save your work and sign in again."}
+          </span>
+          {refreshable && (
+            <button
+              onClick={() => {
+                toast.dismiss(t.id);
+                staySignedIn();
+              }}
+              className="whitespace-nowrap bg-orange-600 text-white px-3 py-1 rounded-md text-sm font-medium hover:bg-orange-700"
+            >
+              Stay signed in
+            </button>
+          )}
+        </div>
+      ),
+      { id: EXPIRY_TOAST_ID, duration: EXPIRY_WARNING_MS }
+    );
+  };
 
-      // Store in cookies
-      Cookies.set("token", newToken, { expires: 7 }); // 7 days
-      Cookies.set("user", JSON.stringify(newUser), { expires: 7 });
+  const login = async (
+    email: string,
+    password: string
+  ): Promise<LoginResult> => {
+    try {
+      setIsLoading(true);
+      const response = await client.auth.login(email, password);
+
+      if ("challengeToken" in response) {
+        twoFactorChallenge.current = response.challengeToken;
+        return "two-factor-required";
+      }
+      startSession(response);
 
       toast.success("Login successful!");
+      return "signed-in";
     } catch (error: any) {
-      const message = error.response?.data?.message || "Login failed";
+      const message = getErrorMessage(error, "Login failed");
       toast.error(message);
       throw error;
     } finally {
@@ -73,29 +246,62 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const register = async (userData: {
-    name: string;
-    email: string;
-    phone: string;
-    password: string;
-    role?: "user" | "admin";
-  }) => {
+  const verifyTwoFactor = async (code: string, method: TwoFactorMethod) => {
+    const challengeToken = twoFactorChallenge.current;
+    if (!challengeToken) {
+      toast.error("Your sign-in attempt expired, please start again");
+      throw new Error("No two-factor sign-in in progress");
+    }
     try {
       setIsLoading(true);
-      const response = await api.post("/auth/register", userData);
+      startSession(
+        await client.auth.verifyTwoFactor({ challengeToken, code, method })
+      );
+      twoFactorChallenge.current = null;
+
+      toast.success("Login successful!");
+    } catch (error: any) {
+      // The challenge is dropped after an expiry or too many wrong codes
+      if (getErrorStatus(error) === 401) twoFactorChallenge.current = null;
+      const message = getErrorMessage(error, "Verification failed");
+      toast.error(message);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      const { token: newToken, user: newUser } = response.data;
+  const cancelTwoFactor = () => {
+    twoFactorChallenge.current = null;
+  };
+
+  const register = async (userData: RegisterData) => {
+    try {
+      setIsLoading(true);
+      const response = await client.auth.register(userData);
+      startSession(response);
 
-      setToken(newToken);
-      setUser(newUser);
+      toast.success(
+        "Registration successful! Check your email to verify your account."
+      );
+    } catch (error: any) {
+      const message = getErrorMessage(error, "Registration failed");
+      toast.error(message);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      // Store in cookies
-      Cookies.set("token", newToken, { expires: 7 });
-      Cookies.set("user", JSON.stringify(newUser), { expires: 7 });
+  const acceptInvite = async (data: AcceptInviteData) => {
+    try {
+      setIsLoading(true);
+      const response = await client.auth.acceptInvite(data);
+      startSession(response);
 
-      toast.success("Registration successful!");
+      toast.success(`Welcome to the team, ${response.user.name}!`);
     } catch (error: any) {
-      const message = error.response?.data?.message || "Registration failed";
+      const message = getErrorMessage(error, "Could not accept invite");
       toast.error(message);
       throw error;
     } finally {
@@ -103,24 +309,141 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const requestPasswordReset = async (email: string) => {
+    try {
+      await client.auth.forgotPassword(email);
+    } catch (error: any) {
+      const message = getErrorMessage(error, "Could not send reset link");
+      toast.error(message);
+      throw error;
+    }
+  };
+
+  const resetPassword = async (resetToken: string, password: string) => {
+    try {
+      await client.auth.resetPassword(resetToken, password);
+      toast.success("Password updated, please sign in");
+    } catch (error: any) {
+      const message = getErrorMessage(error, "Password reset failed");
+      toast.error(message);
+      throw error;
+    }
+  };
+
+  // The verify page renders its own expired/invalid states, so failures are
+  // only rethrown here
+  const verifyEmail = async (verificationToken: string) => {
+    const { message, user: verifiedUser } = await client.auth.verifyEmail(
+      verificationToken
+    );
+    if (user?.id === verifiedUser.id) {
+      saveUser(verifiedUser);
+    }
+    toast.success(message);
+  };
+
+  const resendVerification = async () => {
+    try {
+      await client.auth.resendVerification();
+      toast.success("Verification email sent");
+    } catch (error: any) {
+      const message = getErrorMessage(
+        error,
+        "Could not send verification email"
+      );
+      toast.error(message);
+      throw error;
+    }
+  };
+
+  const updateProfile = async (data: ProfileUpdateData) => {
+    try {
+      saveUser(await client.account.update(data));
+      toast.success("Profile updated");
+    } catch (error: any) {
+      const message = getErrorMessage(error, "Could not update profile");
+      toast.error(message);
+      throw error;
+    }
+  };
+
+  const uploadAvatar = async (file: File) => {
+    const formData = new FormData();
+    formData.append("avatar", file);
+    try {
+      saveUser(await client.account.uploadAvatar(formData));
+      toast.success("Avatar updated");
+    } catch (error: any) {
+      const message = getErrorMessage(error, "Could not upload avatar");
+      toast.error(message);
+      throw error;
+    }
+  };
+
+  const changePassword = async (data: PasswordChangeData) => {
+    try {
+      await client.account.changePassword(data);
+      toast.success("Password changed, other devices were signed out");
+    } catch (error: any) {
+      const message = getErrorMessage(error, "Could not change password");
+      toast.error(message);
+      throw error;
+    }
+  };
+
+  const enableTwoFactor = async (code: string) => {
+    try {
+      const { user: updatedUser, backupCodes } =
+        await client.account.twoFactor.enable(code);
+      saveUser(updatedUser);
+      toast.success("Two-factor authentication enabled");
+      return backupCodes;
+    } catch (error: any) {
+      const message = getErrorMessage(error, "Could not enable two-factor");
+      toast.error(message);
+      throw error;
+    }
+  };
+
+  const disableTwoFactor = async (data: TwoFactorDisableData) => {
+    try {
+      saveUser(await client.account.twoFactor.disable(data));
+      toast.success("Two-factor authentication disabled");
+    } catch (error: any) {
+      const message = getErrorMessage(error, "Could not disable two-factor");
+      toast.error(message);
+      throw error;
+    }
+  };
+
   const logout = () => {
-    setUser(null);
-    setToken(null);
-    Cookies.remove("token");
-    Cookies.remove("user");
+    endSession();
     toast.success("Logged out successfully");
   };
 
   const value: AuthContextType = useMemo(
     () => ({
       user,
-      token,
       isLoading,
+      sessionExpiresAt,
       login,
+      verifyTwoFactor,
+      cancelTwoFactor,
       register,
+      acceptInvite,
       logout,
+      requestPasswordReset,
+      resetPassword,
+      verifyEmail,
+      resendVerification,
+      updateProfile,
+      uploadAvatar,
+      changePassword,
+      enableTwoFactor,
+      disableTwoFactor,
+      staySignedIn,
     }),
-    [user, token, isLoading]
+    [user, isLoading, sessionExpiresAt]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
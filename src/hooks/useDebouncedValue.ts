@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// The value as it was once it stopped changing for `delay` milliseconds
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const handle = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(handle);
+  }, [value, delay]);
+
+  return debounced;
+}
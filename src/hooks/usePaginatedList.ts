@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { getErrorMessage } from "@/lib/utils";
+import { ListMode, PaginatedResponse, Pagination } from "@/types";
+
+const MODE_STORAGE_PREFIX = "offroad-list-mode:";
+const SNAPSHOT_STORAGE_PREFIX = "offroad-list:";
+
+// A remembered list is only worth restoring for a quick look at an event
+const SNAPSHOT_TTL_MS = 30 * 60 * 1000;
+
+interface ListSnapshot<T> {
+  queryKey: string;
+  mode: ListMode;
+  items: T[];
+  pagination: Pagination;
+  scrollY: number;
+  savedAt: number;
+}
+
+interface PaginatedListOptions<T> {
+  // Names the list in browser storage, e.g. "events" or "home-events"
+  storageKey: string;
+  // Changes whenever the filters do; the list then starts again at page one
+  queryKey: string;
+  pageSize: number;
+  // Page one for the first queryKey when the server already rendered it,
+  // so it isn't fetched again on mount
+  initialPage?: PaginatedResponse<T>;
+  // While the list isn't on screen nothing is fetched; filters changed in
+  // the meantime are caught up on when it's shown again
+  paused?: boolean;
+  defaultMode?: ListMode;
+  errorMessage: string;
+  fetchPage: (
+    page: number,
+    limit: number,
+    signal: AbortSignal
+  ) => Promise<PaginatedResponse<T>>;
+}
+
+function readMode(storageKey: string): ListMode | null {
+  try {
+    const stored = localStorage.getItem(MODE_STORAGE_PREFIX + storageKey);
+    return stored === "pages" || stored === "infinite" ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+function readSnapshot<T>(storageKey: string): ListSnapshot<T> | null {
+  try {
+    const stored = sessionStorage.getItem(SNAPSHOT_STORAGE_PREFIX + storageKey);
+    const snapshot: ListSnapshot<T> | null = stored ? JSON.parse(stored) : null;
+    return snapshot && Date.now() - snapshot.savedAt < SNAPSHOT_TTL_MS
+      ? snapshot
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Snapshots are single use: they restore the list once, on the way back
+function clearSnapshot(storageKey: string) {
+  try {
+    sessionStorage.removeItem(SNAPSHOT_STORAGE_PREFIX + storageKey);
+  } catch {
+    // Nothing was stored
+  }
+}
+
+// Loads a PaginatedResponse page by page, either replacing the list (numbered
+// pages) or appending to it (infinite scroll), and can put the list and the
+// scroll position back after a visit to one of its items
+export function usePaginatedList<T>({
+  storageKey,
+  queryKey,
+  pageSize,
+  initialPage,
+  paused = false,
+  defaultMode = "pages",
+  errorMessage,
+  fetchPage,
+}: PaginatedListOptions<T>) {
+  const [mode, setModeState] = useState<ListMode>(defaultMode);
+  const [items, setItems] = useState<T[]>(initialPage?.data ?? []);
+  const [pagination, setPagination] = useState<Pagination | null>(
+    initialPage?.pagination ?? null
+  );
+  const [loading, setLoading] = useState(!initialPage);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Always call the latest fetcher, which closes over the current filters
+  const fetchRef = useRef(fetchPage);
+  fetchRef.current = fetchPage;
+  // A new load cancels the one in flight, so fast filter changes can't
+  // land out of order
+  const inFlight = useRef<AbortController | null>(null);
+  const lastLoad = useRef({ page: 1, append: false });
+  // Set until lastLoad lands; a load aborted by pausing is picked up again
+  // on resume, or the list would keep the previous page's items
+  const lastLoadPending = useRef(false);
+  const pendingScroll = useRef<number | null>(null);
+  const serverPage = useRef(initialPage);
+  // The queryKey the items on hand were loaded for
+  const loadedQuery = useRef<string | null>(null);
+  const wasPaused = useRef(paused);
+
+  const load = async (page: number, append: boolean) => {
+    inFlight.current?.abort();
+    const request = new AbortController();
+    inFlight.current = request;
+    lastLoad.current = { page, append };
+    lastLoadPending.current = true;
+    if (append) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
+    try {
+      const response = await fetchRef.current(page, pageSize, request.signal);
+      if (request.signal.aborted) return;
+      lastLoadPending.current = false;
+      setItems((current) =>
+        append ? [...current, ...response.data] : response.data
+      );
+      setPagination(response.pagination);
+      setError(null);
+      if (!append) loadedQuery.current = queryKey;
+    } catch (err) {
+      if (request.signal.aborted) return;
+      lastLoadPending.current = false;
+      setError(getErrorMessage(err, errorMessage));
+    } finally {
+      if (inFlight.current === request) {
+        inFlight.current = null;
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    // Only good for the first load; later ones are for other filters
+    const prerendered = serverPage.current;
+    serverPage.current = undefined;
+    const snapshot = readSnapshot<T>(storageKey);
+    if (snapshot && snapshot.queryKey === queryKey) {
+      inFlight.current?.abort();
+      lastLoadPending.current = false;
+      setModeState(snapshot.mode);
+      setItems(snapshot.items);
+      setPagination(snapshot.pagination);
+      setError(null);
+      setLoading(false);
+      setLoadingMore(false);
+      pendingScroll.current = snapshot.scrollY;
+      loadedQuery.current = queryKey;
+      return;
+    }
+    clearSnapshot(storageKey);
+    setModeState(readMode(storageKey) ?? defaultMode);
+    if (prerendered) {
+      loadedQuery.current = queryKey;
+      return;
+    }
+    if (paused) return;
+    load(1, false);
+    return () => inFlight.current?.abort();
+  }, [storageKey, queryKey]);
+
+  useEffect(() => {
+    const resumed = wasPaused.current && !paused;
+    wasPaused.current = paused;
+    if (paused) {
+      inFlight.current?.abort();
+    } else if (resumed && loadedQuery.current !== queryKey) {
+      load(1, false);
+    } else if (resumed && lastLoadPending.current) {
+      load(lastLoad.current.page, lastLoad.current.append);
+    }
+  }, [paused]);
+
+  // Scroll once the restored items are on the page
+  useEffect(() => {
+    if (pendingScroll.current === null || loading) return;
+    const scrollY = pendingScroll.current;
+    pendingScroll.current = null;
+    clearSnapshot(storageKey);
+    requestAnimationFrame(() => window.scrollTo(0, scrollY));
+  }, [items, loading]);
+
+  const setMode = (nextMode: ListMode) => {
+    if (nextMode === mode) return;
+    try {
+      localStorage.setItem(MODE_STORAGE_PREFIX + storageKey, nextMode);
+    } catch {
+      // Storage can be unavailable (private mode); the choice just won't stick
+    }
+    setModeState(nextMode);
+    load(1, false);
+  };
+
+  const goToPage = (page: number) => {
+    if (page === pagination?.currentPage) return;
+    load(page, false);
+  };
+
+  const loadMore = () => {
+    if (paused || !pagination?.hasNext || loading || loadingMore) return;
+    load(pagination.currentPage + 1, true);
+  };
+
+  const retry = () => {
+    load(lastLoad.current.page, lastLoad.current.append);
+  };
+
+  // Call before leaving for an item's page so "back" lands in the same spot
+  const rememberPosition = () => {
+    if (!pagination) return;
+    const snapshot: ListSnapshot<T> = {
+      queryKey,
+      mode,
+      items,
+      pagination,
+      scrollY: window.scrollY,
+      savedAt: Date.now(),
+    };
+    try {
+      sessionStorage.setItem(
+        SNAPSHOT_STORAGE_PREFIX + storageKey,
+        JSON.stringify(snapshot)
+      );
+    } catch {
+      // Too large for storage; the list will simply load again
+    }
+  };
+
+  return {
+    items,
+    pagination,
+    mode,
+    setMode,
+    loading,
+    loadingMore,
+    error,
+    goToPage,
+    loadMore,
+    retry,
+    rememberPosition,
+  };
+}
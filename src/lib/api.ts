@@ -1,7 +1,33 @@
-import axios from 'axios';
+import axios, {
+  AxiosError,
+  InternalAxiosRequestConfig,
+} from 'axios';
 import Cookies from 'js-cookie';
+import {
+  CSRF_COOKIE,
+  CSRF_HEADER,
+  SESSION_EXPIRES_HEADER,
+} from './bff/constants';
+import { signInUrl } from './utils';
+import { User } from '@/types';
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001/api';
+// Every request goes to the Next route handlers, which hold the tokens in
+// httpOnly cookies and forward calls to the backend
+const API_BASE_URL = '/api';
+
+// Requests whose 401s mean bad credentials rather than an ended session
+const AUTH_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+  '/auth/verify-email',
+  '/auth/invites',
+  '/session',
+];
+
+const UNSAFE_METHODS = ['post', 'put', 'patch', 'delete'];
 
 const api = axios.create({
   baseURL: API_BASE_URL,
@@ -10,12 +36,72 @@ const api = axios.create({
   },
 });
 
-// Request interceptor to add auth token
+export type SessionChange =
+  | { type: 'refresh'; expiresAt: number | null }
+  | { type: 'end' };
+
+type SessionListener = (change: SessionChange) => void;
+
+const sessionListeners = new Set<SessionListener>();
+
+// Lets AuthProvider follow sessions the BFF extended or ended mid-request
+export function subscribeToSessionChanges(listener: SessionListener) {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+}
+
+function notifySessionListeners(change: SessionChange) {
+  sessionListeners.forEach((listener) => listener(change));
+}
+
+// The httpOnly user cookie can't be read from scripts, so AuthProvider keeps
+// this copy for permission checks made outside React
+let sessionUser: User | null = null;
+
+export function setSessionUser(user: User | null) {
+  sessionUser = user;
+}
+
+export function getSessionUser(): User | null {
+  return sessionUser;
+}
+
+let csrfPromise: Promise<unknown> | null = null;
+
+// The CSRF cookie is issued by GET /session; fetch it once if it's missing
+async function csrfToken(): Promise<string | undefined> {
+  if (!Cookies.get(CSRF_COOKIE)) {
+    csrfPromise ??= api.get('/session').finally(() => {
+      csrfPromise = null;
+    });
+    await csrfPromise;
+  }
+  return Cookies.get(CSRF_COOKIE);
+}
+
+function redirectToSignIn() {
+  setSessionUser(null);
+  notifySessionListeners({ type: 'end' });
+  const { pathname, search } = window.location;
+  if (pathname.startsWith('/auth/signin')) return;
+  window.location.href = signInUrl(`${pathname}${search}`);
+}
+
+function isAuthEndpoint(config: InternalAxiosRequestConfig) {
+  const url = `/${(config.url || '').replace(/^\/+/, '')}`;
+  return AUTH_ENDPOINTS.some((endpoint) => url.startsWith(endpoint));
+}
+
+// Request interceptor to add the CSRF token to state-changing calls
 api.interceptors.request.use(
-  (config) => {
-    const token = Cookies.get('token');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
+  async (config) => {
+    if (UNSAFE_METHODS.includes((config.method || 'get').toLowerCase())) {
+      const token = await csrfToken();
+      if (token) {
+        config.headers[CSRF_HEADER] = token;
+      }
     }
     return config;
   },
@@ -24,18 +110,32 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor for error handling
+// Response interceptor: follow refreshes done by the BFF and send the user to
+// sign-in once it gives up on the session
 api.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      Cookies.remove('token');
-      Cookies.remove('user');
-      window.location.href = '/auth/signin';
+  (response) => {
+    // Header names arrive lowercased
+    const expiresAt =
+      response.headers[SESSION_EXPIRES_HEADER.toLowerCase()];
+    if (typeof expiresAt === 'string') {
+      notifySessionListeners({
+        type: 'refresh',
+        expiresAt: expiresAt ? Number(expiresAt) : null,
+      });
+    }
+    return response;
+  },
+  (error: AxiosError) => {
+    const config = error.config;
+    if (
+      error.response?.status === 401 &&
+      config &&
+      !isAuthEndpoint(config)
+    ) {
+      redirectToSignIn();
     }
     return Promise.reject(error);
   }
 );
 
-export default api;
\ No newline at end of file
+export default api;
@@ -0,0 +1,60 @@
+// Session cookies are already shared between tabs; these messages only tell
+// the other tabs to ask /api/session again instead of waiting for a 401.
+export type AuthSyncEvent = 'login' | 'logout' | 'refresh' | 'update';
+
+type AuthSyncListener = (event: AuthSyncEvent) => void;
+
+const CHANNEL_NAME = 'offroad-auth';
+// Fallback for browsers without BroadcastChannel
+const STORAGE_KEY = 'offroad-auth-sync';
+
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel =
+      typeof BroadcastChannel === 'undefined'
+        ? null
+        : new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+// Neither transport echoes a message back to the tab that sent it
+export function broadcastAuthChange(event: AuthSyncEvent) {
+  if (typeof window === 'undefined') return;
+  const current = getChannel();
+  if (current) {
+    current.postMessage(event);
+    return;
+  }
+  try {
+    // The timestamp makes repeated events still count as a change
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ event, at: Date.now() }));
+  } catch {
+    // Storage can be unavailable, e.g. in private mode; tabs then fall back
+    // to noticing on their next request
+  }
+}
+
+export function subscribeToAuthChanges(listener: AuthSyncListener) {
+  if (typeof window === 'undefined') return () => {};
+  const current = getChannel();
+  if (current) {
+    const onMessage = (message: MessageEvent<AuthSyncEvent>) =>
+      listener(message.data);
+    current.addEventListener('message', onMessage);
+    return () => current.removeEventListener('message', onMessage);
+  }
+
+  const onStorage = (storageEvent: StorageEvent) => {
+    if (storageEvent.key !== STORAGE_KEY || !storageEvent.newValue) return;
+    try {
+      listener(JSON.parse(storageEvent.newValue).event);
+    } catch {
+      // Ignore values written by something else
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+}
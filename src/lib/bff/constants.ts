@@ -0,0 +1,15 @@
+// Cookie and header names shared by the BFF route handlers, the middleware
+// and the browser API client
+
+export const TOKEN_COOKIE = 'token';
+export const REFRESH_TOKEN_COOKIE = 'refreshToken';
+export const USER_COOKIE = 'user';
+
+// Readable by scripts on purpose: pages echo it back in CSRF_HEADER, which a
+// cross-site form or fetch cannot do
+export const CSRF_COOKIE = 'csrfToken';
+export const CSRF_HEADER = 'X-CSRF-Token';
+
+// Sent whenever the BFF issues or rotates tokens so the page can reschedule
+// its expiry timers; empty when the token doesn't say
+export const SESSION_EXPIRES_HEADER = 'X-Session-Expires-At';
@@ -0,0 +1,187 @@
+import { array, decode, Decoder } from '@/lib/schema';
+import {
+  eventDecoder,
+  galleryImageDecoder,
+  paginationDecoder,
+  registrationDecoder,
+  registrationFeedDecoder,
+} from '@/lib/decoders';
+import {
+  Event,
+  GalleryImage,
+  PaginatedResponse,
+  Registration,
+  RegistrationFeed,
+} from '@/types';
+import { callUpstream } from './upstream';
+
+// Server-side reads of the public endpoints, for pages and route handlers
+// that render events themselves rather than proxying JSON to the browser
+
+const PAGE_LIMIT = 100;
+
+// Public data may be up to this old, in step with the pages that
+// regenerate from it
+const CACHE_SECONDS = 300;
+
+// Stops a runaway loop if the API keeps reporting another page
+const MAX_PAGES = 50;
+
+export class UpstreamError extends Error {
+  status: number;
+
+  constructor(status: number, data: unknown) {
+    const message = (data as { message?: unknown } | null)?.message;
+    super(typeof message === 'string' ? message : `Upstream error ${status}`);
+    this.name = 'UpstreamError';
+    this.status = status;
+  }
+}
+
+async function getPublic(
+  path: string,
+  search = '',
+  userAgent = '',
+  revalidate?: number
+) {
+  const { status, data } = await callUpstream({
+    method: 'GET',
+    path,
+    search,
+    contentType: null,
+    body: null,
+    token: null,
+    userAgent,
+    revalidate,
+  });
+  if (status >= 400) throw new UpstreamError(status, data);
+  return data as Record<string, unknown>;
+}
+
+// null when the event doesn't exist or isn't published
+export async function fetchEvent(
+  id: string,
+  userAgent?: string
+): Promise<Event | null> {
+  try {
+    const data = await getPublic(
+      `/events/${encodeURIComponent(id)}`,
+      '',
+      userAgent,
+      CACHE_SECONDS
+    );
+    return decode(eventDecoder, data, 'event');
+  } catch (error) {
+    if (error instanceof UpstreamError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+async function fetchPage<T>(
+  path: string,
+  key: string,
+  decoder: Decoder<T>,
+  params: Record<string, string>,
+  userAgent?: string
+): Promise<PaginatedResponse<T>> {
+  const data = await getPublic(
+    path,
+    `?${new URLSearchParams(params)}`,
+    userAgent,
+    CACHE_SECONDS
+  );
+  return {
+    data: decode(array(decoder), data[key], key),
+    pagination: decode(paginationDecoder, data.pagination, 'pagination'),
+  };
+}
+
+async function fetchAllPages<T>(
+  path: string,
+  key: string,
+  decoder: Decoder<T>,
+  filters: Record<string, string>,
+  userAgent?: string
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const { data, pagination } = await fetchPage(
+      path,
+      key,
+      decoder,
+      { ...filters, page: String(page), limit: String(PAGE_LIMIT) },
+      userAgent
+    );
+    items.push(...data);
+    if (!pagination.hasNext) break;
+  }
+  return items;
+}
+
+// One page of active events, as the events page asks for it
+export function fetchEventPage(
+  filters: Record<string, string>,
+  userAgent?: string
+): Promise<PaginatedResponse<Event>> {
+  return fetchPage('/events', 'events', eventDecoder, filters, userAgent);
+}
+
+// Every active event matching the filters, across all pages
+export function fetchActiveEvents(
+  filters: Record<string, string>,
+  userAgent?: string
+): Promise<Event[]> {
+  return fetchAllPages('/events', 'events', eventDecoder, filters, userAgent);
+}
+
+export function fetchGalleryImages(userAgent?: string): Promise<GalleryImage[]> {
+  return fetchAllPages(
+    '/gallery',
+    'images',
+    galleryImageDecoder,
+    {},
+    userAgent
+  );
+}
+
+// A member's registrations by the secret in their feed URL; null when the
+// token is unknown or was regenerated
+export async function fetchRegistrationFeed(
+  token: string,
+  userAgent?: string
+): Promise<RegistrationFeed | null> {
+  try {
+    const data = await getPublic(
+      `/calendar/${encodeURIComponent(token)}`,
+      '',
+      userAgent
+    );
+    return decode(registrationFeedDecoder, data, 'calendar');
+  } catch (error) {
+    if (error instanceof UpstreamError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+// The signed-in member's own registrations, newest first. Not cached:
+// it's per member and changes as soon as they sign up.
+export async function fetchMemberRegistrations(
+  token: string,
+  userAgent = ''
+): Promise<Registration[]> {
+  const { status, data } = await callUpstream({
+    method: 'GET',
+    path: '/registrations',
+    search: '',
+    contentType: null,
+    body: null,
+    token,
+    userAgent,
+  });
+  if (status >= 400) throw new UpstreamError(status, data);
+  return decode(
+    array(registrationDecoder),
+    (data as { registrations?: unknown } | null)?.registrations,
+    'registrations'
+  );
+}
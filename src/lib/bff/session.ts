@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decode } from '@/lib/schema';
+import { refreshResponseDecoder, userDecoder } from '@/lib/decoders';
+import { decodeToken } from '@/lib/jwt';
+import { RefreshResponse, SessionInfo, User } from '@/types';
+import { callUpstream, jsonBody } from './upstream';
+import {
+  CSRF_COOKIE,
+  CSRF_HEADER,
+  REFRESH_TOKEN_COOKIE,
+  SESSION_EXPIRES_HEADER,
+  TOKEN_COOKIE,
+  USER_COOKIE,
+} from './constants';
+
+export interface StoredSession {
+  token: string | null;
+  refreshToken: string | null;
+  user: User | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Refresh tokens are single use, so parallel requests carrying the same one
+// share a single refresh; the result is kept briefly for late arrivals
+const REFRESH_REUSE_MS = 10 * 1000;
+const refreshes = new Map<string, Promise<RefreshResponse | null>>();
+
+export function readSession(request: NextRequest): StoredSession {
+  let user: User | null = null;
+  try {
+    const stored = request.cookies.get(USER_COOKIE)?.value;
+    user = stored ? decode(userDecoder, JSON.parse(stored), 'user') : null;
+  } catch {
+    user = null;
+  }
+  return {
+    token: request.cookies.get(TOKEN_COOKIE)?.value || null,
+    refreshToken: request.cookies.get(REFRESH_TOKEN_COOKIE)?.value || null,
+    user,
+  };
+}
+
+function expiryOf(token: string | null): number | null {
+  const exp = decodeToken(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+// When the session ends for good: the refresh token bounds it if there is
+// one, otherwise the access token does. Null when the token is opaque.
+function sessionExpiry(session: StoredSession): number | null {
+  return session.refreshToken
+    ? expiryOf(session.refreshToken)
+    : expiryOf(session.token);
+}
+
+export function toSessionInfo(session: StoredSession): SessionInfo {
+  const expiresAt = sessionExpiry(session);
+  const active =
+    Boolean(session.user && (session.token || session.refreshToken)) &&
+    (!expiresAt || expiresAt > Date.now());
+  if (!active) return { user: null, expiresAt: null, canRefresh: false };
+  return {
+    user: session.user,
+    expiresAt,
+    canRefresh: Boolean(session.refreshToken),
+  };
+}
+
+function cookieOptions(expires: Date) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires,
+  };
+}
+
+// Session cookies live as long as the session itself, 7 days if unknown
+export function writeSession(response: NextResponse, session: StoredSession) {
+  const expiresAt = sessionExpiry(session);
+  const expires = new Date(expiresAt ?? Date.now() + 7 * DAY_MS);
+  if (session.refreshToken) {
+    const refreshExpiry = expiryOf(session.refreshToken);
+    response.cookies.set(
+      REFRESH_TOKEN_COOKIE,
+      session.refreshToken,
+      cookieOptions(new Date(refreshExpiry ?? Date.now() + 30 * DAY_MS))
+    );
+  }
+  if (session.token) {
+    response.cookies.set(TOKEN_COOKIE, session.token, cookieOptions(expires));
+  }
+  if (session.user) {
+    response.cookies.set(
+      USER_COOKIE,
+      JSON.stringify(session.user),
+      cookieOptions(expires)
+    );
+  }
+  response.headers.set(SESSION_EXPIRES_HEADER, String(expiresAt ?? ''));
+}
+
+export function clearSession(response: NextResponse) {
+  response.cookies.delete(TOKEN_COOKIE);
+  response.cookies.delete(REFRESH_TOKEN_COOKIE);
+  response.cookies.delete(USER_COOKIE);
+}
+
+export function ensureCsrfCookie(request: NextRequest, response: NextResponse) {
+  if (request.cookies.get(CSRF_COOKIE)?.value) return;
+  response.cookies.set(CSRF_COOKIE, crypto.randomUUID(), {
+    httpOnly: false,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+  });
+}
+
+// null for origins that aren't URLs, such as the "null" sent by sandboxed
+// frames and after some redirects; those never match the host
+function originHost(origin: string): string | null {
+  try {
+    return new URL(origin).host;
+  } catch {
+    return null;
+  }
+}
+
+// Double-submit check for anything that changes state, plus an Origin check
+// for browsers that send one
+export function rejectCrossSite(request: NextRequest): NextResponse | null {
+  if (SAFE_METHODS.includes(request.method)) return null;
+
+  const origin = request.headers.get('origin');
+  const host =
+    request.headers.get('x-forwarded-host') ?? request.headers.get('host');
+  if (origin && host && originHost(origin) !== host) {
+    return NextResponse.json(
+      { message: 'Cross-site request blocked' },
+      { status: 403 }
+    );
+  }
+
+  const cookie = request.cookies.get(CSRF_COOKIE)?.value;
+  if (!cookie || request.headers.get(CSRF_HEADER) !== cookie) {
+    return NextResponse.json(
+      { message: 'Invalid or missing CSRF token, please reload the page' },
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+export function refreshTokens(
+  refreshToken: string,
+  userAgent: string
+): Promise<RefreshResponse | null> {
+  let pending = refreshes.get(refreshToken);
+  if (!pending) {
+    pending = callUpstream({
+      method: 'POST',
+      path: '/auth/refresh',
+      search: '',
+      ...jsonBody({ refreshToken }),
+      token: null,
+      userAgent,
+    })
+      .then(({ status, data }) =>
+        status >= 200 && status < 300
+          ? decode(refreshResponseDecoder, data, 'refresh')
+          : null
+      )
+      .catch(() => null);
+    refreshes.set(refreshToken, pending);
+    setTimeout(() => refreshes.delete(refreshToken), REFRESH_REUSE_MS);
+  }
+  return pending;
+}
+
+// Backends that don't rotate refresh tokens keep the current one
+export async function refreshSession(
+  session: StoredSession,
+  userAgent: string
+): Promise<StoredSession | null> {
+  if (!session.refreshToken) return null;
+  const tokens = await refreshTokens(session.refreshToken, userAgent);
+  return tokens
+    ? {
+        token: tokens.token,
+        refreshToken: tokens.refreshToken ?? session.refreshToken,
+        user: session.user,
+      }
+    : null;
+}
+
+// Who the backend says the token belongs to; null when it refuses the token.
+// Cookies can be edited by hand, so access decisions use this, not the user
+// cookie or unverified token claims.
+export async function fetchSessionUser(
+  token: string,
+  userAgent: string
+): Promise<User | null> {
+  const { status, data } = await callUpstream({
+    method: 'GET',
+    path: '/account',
+    search: '',
+    contentType: null,
+    body: null,
+    token,
+    userAgent,
+  });
+  if (status === 401 || status === 403) return null;
+  if (status >= 400) throw new Error(`Upstream error ${status}`);
+  return decode(userDecoder, (data as { user?: unknown } | null)?.user, 'user');
+}
@@ -0,0 +1,68 @@
+import { mockUpstream } from '@/lib/mock/upstream';
+
+// Server-side only: the browser talks to the route handlers under /api
+const API_URL =
+  process.env.API_URL ||
+  process.env.NEXT_PUBLIC_API_URL ||
+  'http://localhost:5001/api';
+
+// Answer every request from the in-memory backend instead of the network
+const USE_MOCK_API = process.env.NEXT_PUBLIC_USE_MOCK_API === 'true';
+
+export interface UpstreamRequest {
+  method: string;
+  path: string;
+  // Query string including the leading "?", or empty
+  search: string;
+  contentType: string | null;
+  body: ArrayBuffer | string | null;
+  token: string | null;
+  userAgent: string;
+  // Seconds a public read may be served from Next's data cache, so pages
+  // built from it can be statically regenerated; uncached when unset
+  revalidate?: number;
+}
+
+export interface UpstreamResponse {
+  status: number;
+  data: unknown;
+}
+
+export function jsonBody(value: unknown) {
+  return { contentType: 'application/json', body: JSON.stringify(value) };
+}
+
+export async function callUpstream(
+  request: UpstreamRequest
+): Promise<UpstreamResponse> {
+  if (USE_MOCK_API) return mockUpstream(request);
+
+  const headers: Record<string, string> = { 'User-Agent': request.userAgent };
+  if (request.contentType) headers['Content-Type'] = request.contentType;
+  if (request.token) headers.Authorization = `Bearer ${request.token}`;
+
+  try {
+    const response = await fetch(`${API_URL}${request.path}${request.search}`, {
+      method: request.method,
+      headers,
+      body: request.body,
+      ...(request.revalidate
+        ? { next: { revalidate: request.revalidate } }
+        : { cache: 'no-store' as const }),
+    });
+    const text = await response.text();
+    let data: unknown;
+    try {
+      data = text ? JSON.parse(text) : {};
+    } catch {
+      data = { message: text };
+    }
+    return { status: response.status, data };
+  } catch (error) {
+    console.error('Could not reach the API:', error);
+    return {
+      status: 502,
+      data: { message: 'The server is unavailable, please try again later' },
+    };
+  }
+}
@@ -0,0 +1,81 @@
+// Date helpers for the events calendar. Everything works in the browser's
+// local time, with weeks starting on Sunday.
+
+export type CalendarScale = 'month' | 'week';
+
+// YYYY-MM-DD for the local calendar day
+export function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Local midnight of a YYYY-MM-DD day; null for anything else
+export function parseDayKey(value: string | null | undefined): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || '');
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  // Rejects impossible days such as 2026-02-31 instead of rolling them over
+  return date.getMonth() === month - 1 ? date : null;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+export function startOfWeek(date: Date): Date {
+  return addDays(
+    new Date(date.getFullYear(), date.getMonth(), date.getDate()),
+    -date.getDay()
+  );
+}
+
+// The whole weeks covering the anchor's month, or the anchor's week
+export function calendarDays(scale: CalendarScale, anchor: Date): Date[] {
+  const year = anchor.getFullYear();
+  const month = anchor.getMonth();
+  const first =
+    scale === 'month'
+      ? startOfWeek(new Date(year, month, 1))
+      : startOfWeek(anchor);
+  const last =
+    scale === 'month'
+      ? addDays(startOfWeek(new Date(year, month + 1, 0)), 6)
+      : addDays(first, 6);
+  const days: Date[] = [];
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+// The anchor one month or one week earlier or later
+export function shiftAnchor(
+  scale: CalendarScale,
+  anchor: Date,
+  direction: 1 | -1
+): Date {
+  return scale === 'month'
+    ? new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1)
+    : addDays(anchor, 7 * direction);
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return toDayKey(a) === toDayKey(b);
+}
+
+export function formatCalendarTitle(scale: CalendarScale, anchor: Date) {
+  if (scale === 'month') {
+    return anchor.toLocaleDateString('en-US', {
+      month: 'long',
+      year: 'numeric',
+    });
+  }
+  const days = calendarDays('week', anchor);
+  const format = (date: Date) =>
+    date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${format(days[0])} – ${format(days[6])}, ${days[6].getFullYear()}`;
+}
@@ -0,0 +1,474 @@
+import api, { getSessionUser } from './api';
+import { array, decode, string } from './schema';
+import {
+  adminWaitlistDecoder,
+  adminWaitlistEntryDecoder,
+  authSessionDecoder,
+  calendarFeedDecoder,
+  contactDecoder,
+  dashboardStatsDecoder,
+  eventDecoder,
+  galleryImageDecoder,
+  inviteDecoder,
+  inviteDetailsDecoder,
+  inviteLinkResponseDecoder,
+  paginationDecoder,
+  registrationDecoder,
+  sessionDecoder,
+  sessionInfoDecoder,
+  twoFactorChallengeDecoder,
+  twoFactorEnableResponseDecoder,
+  twoFactorSetupDecoder,
+  twoFactorStatusDecoder,
+  userDecoder,
+  verifyEmailResponseDecoder,
+  waitlistStateDecoder,
+} from './decoders';
+import { can, PermissionError } from './permissions';
+import { getErrorStatus } from './utils';
+import {
+  AcceptInviteData,
+  AdminEventFilters,
+  AdminWaitlist,
+  AdminWaitlistEntry,
+  AuthSession,
+  CalendarFeed,
+  Contact,
+  ContactFilters,
+  ContactFormData,
+  DashboardStats,
+  Event,
+  EventFilters,
+  GalleryFilters,
+  GalleryImage,
+  Invite,
+  InviteDetails,
+  InviteFilters,
+  InviteFormData,
+  InviteLinkResponse,
+  LoginResponse,
+  PaginatedResponse,
+  PasswordChangeData,
+  PermissionAction,
+  PermissionResource,
+  ProfileUpdateData,
+  RegisterData,
+  Registration,
+  RegistrationFilters,
+  RegistrationFormData,
+  ResetTokenStatus,
+  Session,
+  SessionInfo,
+  TwoFactorDisableData,
+  TwoFactorEnableResponse,
+  TwoFactorLoginData,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  User,
+  VerifyEmailResponse,
+  WaitlistState,
+} from '@/types';
+
+type QueryValue = string | number | boolean | undefined | null;
+
+// Drop empty filter values so they never reach the query string
+function toParams(filters: object = {}): Record<string, string> {
+  const params: Record<string, string> = {};
+  Object.entries(filters as Record<string, QueryValue>).forEach(
+    ([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        params[key] = String(value);
+      }
+    }
+  );
+  return params;
+}
+
+// Fail fast on calls the signed-in role may not make; the backend still
+// enforces the same rules
+function requirePermission(
+  action: PermissionAction,
+  resource: PermissionResource
+) {
+  if (!can(getSessionUser(), action, resource)) {
+    throw new PermissionError(action, resource);
+  }
+}
+
+const multipart = {
+  headers: {
+    'Content-Type': 'multipart/form-data',
+  },
+};
+
+export const auth = {
+  // Accounts with 2FA get a challenge to answer instead of tokens
+  login: async (email: string, password: string): Promise<LoginResponse> => {
+    const response = await api.post('/auth/login', { email, password });
+    if (response.data?.challengeToken) {
+      return decode(twoFactorChallengeDecoder, response.data, 'login');
+    }
+    return decode(authSessionDecoder, response.data, 'login');
+  },
+
+  verifyTwoFactor: async (data: TwoFactorLoginData): Promise<AuthSession> => {
+    const response = await api.post('/auth/login/2fa', data);
+    return decode(authSessionDecoder, response.data, 'verifyTwoFactor');
+  },
+
+  register: async (userData: RegisterData): Promise<AuthSession> => {
+    const response = await api.post('/auth/register', userData);
+    return decode(authSessionDecoder, response.data, 'register');
+  },
+
+  forgotPassword: async (email: string): Promise<void> => {
+    await api.post('/auth/forgot-password', { email });
+  },
+
+  // 410 means the link expired, 400/404 that it never existed or was used
+  checkResetToken: async (token: string): Promise<ResetTokenStatus> => {
+    try {
+      await api.get(`/auth/reset-password/${encodeURIComponent(token)}`);
+      return 'valid';
+    } catch (error) {
+      const status = getErrorStatus(error);
+      if (status === 410) return 'expired';
+      if (status === 400 || status === 404) return 'invalid';
+      throw error;
+    }
+  },
+
+  resetPassword: async (token: string, password: string): Promise<void> => {
+    await api.post('/auth/reset-password', { token, password });
+  },
+
+  verifyEmail: async (token: string): Promise<VerifyEmailResponse> => {
+    const response = await api.post('/auth/verify-email', { token });
+    return decode(verifyEmailResponseDecoder, response.data, 'verifyEmail');
+  },
+
+  resendVerification: async (): Promise<void> => {
+    await api.post('/auth/resend-verification');
+  },
+
+  getInvite: async (token: string): Promise<InviteDetails> => {
+    const response = await api.get(
+      `/auth/invites/${encodeURIComponent(token)}`
+    );
+    return decode(inviteDetailsDecoder, response.data, 'invite');
+  },
+
+  acceptInvite: async (data: AcceptInviteData): Promise<AuthSession> => {
+    const response = await api.post('/auth/invites/accept', data);
+    return decode(authSessionDecoder, response.data, 'acceptInvite');
+  },
+};
+
+// The browser session held by the BFF in httpOnly cookies
+export const session = {
+  get: async (): Promise<SessionInfo> => {
+    const response = await api.get('/session');
+    return decode(sessionInfoDecoder, response.data, 'session');
+  },
+
+  refresh: async (): Promise<SessionInfo> => {
+    const response = await api.post('/session/refresh');
+    return decode(sessionInfoDecoder, response.data, 'session');
+  },
+
+  end: async (): Promise<void> => {
+    await api.delete('/session');
+  },
+};
+
+export const account = {
+  get: async (): Promise<User> => {
+    const response = await api.get('/account');
+    return decode(userDecoder, response.data.user, 'user');
+  },
+
+  update: async (data: ProfileUpdateData): Promise<User> => {
+    const response = await api.patch('/account', data);
+    return decode(userDecoder, response.data.user, 'user');
+  },
+
+  uploadAvatar: async (formData: FormData): Promise<User> => {
+    const response = await api.post('/account/avatar', formData, multipart);
+    return decode(userDecoder, response.data.user, 'user');
+  },
+
+  changePassword: async (data: PasswordChangeData): Promise<void> => {
+    await api.post('/account/password', data);
+  },
+
+  twoFactor: {
+    status: async (): Promise<TwoFactorStatus> => {
+      const response = await api.get('/account/2fa');
+      return decode(twoFactorStatusDecoder, response.data, 'twoFactor');
+    },
+
+    setup: async (): Promise<TwoFactorSetup> => {
+      const response = await api.post('/account/2fa/setup');
+      return decode(twoFactorSetupDecoder, response.data, 'twoFactorSetup');
+    },
+
+    enable: async (code: string): Promise<TwoFactorEnableResponse> => {
+      const response = await api.post('/account/2fa/enable', { code });
+      return decode(
+        twoFactorEnableResponseDecoder,
+        response.data,
+        'twoFactorEnable'
+      );
+    },
+
+    disable: async (data: TwoFactorDisableData): Promise<User> => {
+      const response = await api.post('/account/2fa/disable', data);
+      return decode(userDecoder, response.data.user, 'user');
+    },
+
+    regenerateBackupCodes: async (code: string): Promise<string[]> => {
+      const response = await api.post('/account/2fa/backup-codes', { code });
+      return decode(array(string), response.data.backupCodes, 'backupCodes');
+    },
+  },
+
+  calendarFeed: {
+    get: async (): Promise<CalendarFeed> => {
+      const response = await api.get('/account/calendar');
+      return decode(calendarFeedDecoder, response.data.feed, 'feed');
+    },
+
+    // The previous link stops working straight away
+    regenerate: async (): Promise<CalendarFeed> => {
+      const response = await api.post('/account/calendar/regenerate');
+      return decode(calendarFeedDecoder, response.data.feed, 'feed');
+    },
+  },
+
+  sessions: {
+    list: async (): Promise<Session[]> => {
+      const response = await api.get('/account/sessions');
+      return decode(array(sessionDecoder), response.data.sessions, 'sessions');
+    },
+
+    revoke: async (id: string): Promise<void> => {
+      await api.delete(`/account/sessions/${id}`);
+    },
+
+    revokeOthers: async (): Promise<void> => {
+      await api.delete('/account/sessions');
+    },
+  },
+};
+
+export const events = {
+  list: async (
+    filters: EventFilters = {},
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<Event>> => {
+    const response = await api.get('/events', {
+      params: toParams(filters),
+      signal,
+    });
+    return {
+      data: decode(array(eventDecoder), response.data.events, 'events'),
+      pagination: decode(
+        paginationDecoder,
+        response.data.pagination,
+        'pagination'
+      ),
+    };
+  },
+
+  tags: async (): Promise<string[]> => {
+    const response = await api.get('/events/tags');
+    return decode(array(string), response.data.tags, 'tags');
+  },
+
+  get: async (id: string): Promise<Event> => {
+    const response = await api.get(`/events/${id}`);
+    return decode(eventDecoder, response.data, 'event');
+  },
+
+  // Ranked for the signed-in member when there is one
+  related: async (
+    id: string,
+    limit?: number,
+    signal?: AbortSignal
+  ): Promise<Event[]> => {
+    const response = await api.get(`/events/${id}/related`, {
+      params: toParams({ limit }),
+      signal,
+    });
+    return decode(array(eventDecoder), response.data.events, 'events');
+  },
+};
+
+export const registrations = {
+  create: async (data: RegistrationFormData): Promise<void> => {
+    await api.post('/registrations', data);
+  },
+};
+
+export const waitlist = {
+  get: async (eventId: string): Promise<WaitlistState> => {
+    const response = await api.get(`/events/${eventId}/waitlist`);
+    return decode(waitlistStateDecoder, response.data, 'waitlist');
+  },
+
+  join: async (eventId: string): Promise<WaitlistState> => {
+    const response = await api.post(`/events/${eventId}/waitlist`);
+    return decode(waitlistStateDecoder, response.data, 'waitlist');
+  },
+
+  // Also declines a spot that was offered
+  leave: async (eventId: string): Promise<WaitlistState> => {
+    const response = await api.delete(`/events/${eventId}/waitlist`);
+    return decode(waitlistStateDecoder, response.data, 'waitlist');
+  },
+};
+
+export const gallery = {
+  list: async (filters: GalleryFilters = {}): Promise<GalleryImage[]> => {
+    const response = await api.get('/gallery', { params: toParams(filters) });
+    return decode(array(galleryImageDecoder), response.data.images, 'images');
+  },
+
+  like: async (id: string): Promise<void> => {
+    await api.post(`/gallery/${id}/like`);
+  },
+
+  upload: async (formData: FormData): Promise<void> => {
+    requirePermission('create', 'gallery');
+    await api.post('/gallery', formData, multipart);
+  },
+};
+
+export const contacts = {
+  create: async (data: ContactFormData): Promise<void> => {
+    await api.post('/contact', data);
+  },
+};
+
+export const admin = {
+  dashboardStats: async (): Promise<DashboardStats> => {
+    requirePermission('view', 'dashboard');
+    const response = await api.get('/admin/dashboard-stats');
+    return decode(dashboardStatsDecoder, response.data, 'dashboardStats');
+  },
+
+  events: {
+    list: async (filters: AdminEventFilters = {}): Promise<Event[]> => {
+      requirePermission('view', 'events');
+      const response = await api.get('/admin/events', {
+        params: toParams(filters),
+      });
+      return decode(array(eventDecoder), response.data.events, 'events');
+    },
+
+    create: async (formData: FormData): Promise<void> => {
+      requirePermission('create', 'events');
+      await api.post('/admin/events', formData, multipart);
+    },
+
+    update: async (
+      id: string,
+      changes: Partial<Pick<Event, 'status'>>
+    ): Promise<void> => {
+      requirePermission('update', 'events');
+      await api.patch(`/admin/events/${id}`, changes);
+    },
+
+    remove: async (id: string): Promise<void> => {
+      requirePermission('delete', 'events');
+      await api.delete(`/admin/events/${id}`);
+    },
+  },
+
+  registrations: {
+    list: async (filters: RegistrationFilters = {}): Promise<Registration[]> => {
+      requirePermission('view', 'registrations');
+      const response = await api.get('/admin/registrations', {
+        params: toParams(filters),
+      });
+      return decode(
+        array(registrationDecoder),
+        response.data.registrations,
+        'registrations'
+      );
+    },
+
+    update: async (
+      id: string,
+      changes: { status: Registration['registrationStatus'] }
+    ): Promise<void> => {
+      requirePermission('update', 'registrations');
+      await api.patch(`/admin/registrations/${id}`, changes);
+    },
+  },
+
+  waitlist: {
+    list: async (eventId: string): Promise<AdminWaitlist> => {
+      requirePermission('view', 'registrations');
+      const response = await api.get(`/admin/events/${eventId}/waitlist`);
+      return decode(adminWaitlistDecoder, response.data, 'waitlist');
+    },
+
+    // entryIds lists every waiting entry, first in line first
+    reorder: async (eventId: string, entryIds: string[]): Promise<void> => {
+      requirePermission('update', 'registrations');
+      await api.put(`/admin/events/${eventId}/waitlist/order`, { entryIds });
+    },
+
+    promote: async (id: string): Promise<AdminWaitlistEntry> => {
+      requirePermission('update', 'registrations');
+      const response = await api.post(`/admin/waitlist/${id}/promote`);
+      return decode(adminWaitlistEntryDecoder, response.data.entry, 'entry');
+    },
+  },
+
+  contacts: {
+    list: async (filters: ContactFilters = {}): Promise<Contact[]> => {
+      requirePermission('view', 'contacts');
+      const response = await api.get('/admin/contacts', {
+        params: toParams(filters),
+      });
+      return decode(array(contactDecoder), response.data.contacts, 'contacts');
+    },
+
+    update: async (
+      id: string,
+      changes: Partial<Pick<Contact, 'status' | 'priority' | 'adminNotes'>>
+    ): Promise<void> => {
+      requirePermission('update', 'contacts');
+      await api.patch(`/admin/contacts/${id}`, changes);
+    },
+  },
+
+  invites: {
+    list: async (filters: InviteFilters = {}): Promise<Invite[]> => {
+      requirePermission('view', 'invites');
+      const response = await api.get('/admin/invites', {
+        params: toParams(filters),
+      });
+      return decode(array(inviteDecoder), response.data.invites, 'invites');
+    },
+
+    create: async (data: InviteFormData): Promise<InviteLinkResponse> => {
+      requirePermission('create', 'invites');
+      const response = await api.post('/admin/invites', data);
+      return decode(inviteLinkResponseDecoder, response.data, 'invite');
+    },
+
+    resend: async (id: string): Promise<InviteLinkResponse> => {
+      requirePermission('update', 'invites');
+      const response = await api.post(`/admin/invites/${id}/resend`);
+      return decode(inviteLinkResponseDecoder, response.data, 'invite');
+    },
+
+    revoke: async (id: string): Promise<void> => {
+      requirePermission('update', 'invites');
+      await api.post(`/admin/invites/${id}/revoke`);
+    },
+  },
+};
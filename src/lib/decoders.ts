@@ -0,0 +1,377 @@
+import {
+  array,
+  boolean,
+  Decoder,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  string,
+} from './schema';
+import { STAFF_ROLES } from './permissions';
+import {
+  AdminWaitlist,
+  AdminWaitlistEntry,
+  AuthResponse,
+  AuthSession,
+  CalendarFeed,
+  Contact,
+  DashboardStats,
+  Event,
+  GalleryImage,
+  Invite,
+  InviteDetails,
+  InviteLinkResponse,
+  Pagination,
+  RefreshResponse,
+  Registration,
+  RegistrationFeed,
+  Role,
+  Session,
+  SessionInfo,
+  StaffRole,
+  TwoFactorChallenge,
+  TwoFactorEnableResponse,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  User,
+  VerifyEmailResponse,
+  WaitlistEntry,
+  WaitlistState,
+} from '@/types';
+
+const staffRole = literal<StaffRole>(...STAFF_ROLES);
+
+const difficulty = literal('Beginner', 'Intermediate', 'Advanced', 'Expert');
+
+const experience = literal(
+  'Beginner',
+  'Some Experience',
+  'Experienced',
+  'Expert'
+);
+
+export const userDecoder: Decoder<User> = object<User>({
+  id: string,
+  name: string,
+  email: string,
+  phone: string,
+  role: literal<Role>('user', ...STAFF_ROLES),
+  emailVerified: boolean,
+  twoFactorEnabled: boolean,
+  profileImage: optional(string),
+  createdAt: string,
+});
+
+export const eventDecoder: Decoder<Event> = object<Event>({
+  _id: string,
+  title: string,
+  description: string,
+  shortDescription: string,
+  date: string,
+  location: object<Event['location']>({
+    address: string,
+    coordinates: optional(
+      object({
+        latitude: number,
+        longitude: number,
+      })
+    ),
+  }),
+  price: number,
+  maxParticipants: number,
+  currentParticipants: number,
+  difficulty,
+  duration: string,
+  images: array(
+    object<Event['images'][number]>({
+      url: string,
+      alt: string,
+      isPrimary: boolean,
+    })
+  ),
+  equipment: array(string),
+  requirements: array(string),
+  includes: array(string),
+  status: literal('active', 'cancelled', 'completed', 'draft'),
+  registrationDeadline: string,
+  createdBy: object<Event['createdBy']>({
+    _id: string,
+    name: string,
+    email: string,
+  }),
+  tags: array(string),
+  createdAt: string,
+  updatedAt: string,
+  isFull: boolean,
+  availableSpots: number,
+});
+
+export const registrationDecoder: Decoder<Registration> =
+  object<Registration>({
+    _id: string,
+    event: object<Registration['event']>({
+      _id: string,
+      title: string,
+      date: string,
+    }),
+    user: object<Registration['user']>({
+      _id: string,
+      name: string,
+      email: string,
+    }),
+    participantDetails: object<Registration['participantDetails']>({
+      name: string,
+      email: string,
+      phone: string,
+      emergencyContact: object({
+        name: string,
+        phone: string,
+        relationship: string,
+      }),
+      medicalConditions: string,
+      experience,
+      vehicleDetails: object({
+        make: string,
+        model: string,
+        year: number,
+        modifications: string,
+      }),
+      additionalNotes: optional(string),
+    }),
+    registrationStatus: literal('pending', 'confirmed', 'cancelled', 'completed'),
+    paymentStatus: literal('pending', 'paid', 'refunded'),
+    registrationDate: string,
+    paymentDate: optional(string),
+    paymentAmount: number,
+    waiverSigned: boolean,
+    notes: optional(string),
+    createdAt: string,
+    updatedAt: string,
+  });
+
+export const galleryImageDecoder: Decoder<GalleryImage> =
+  object<GalleryImage>({
+    _id: string,
+    title: string,
+    description: optional(string),
+    imageUrl: string,
+    altText: string,
+    category: literal(
+      'Events',
+      'Vehicles',
+      'Landscapes',
+      'Action',
+      'Group Photos',
+      'Other'
+    ),
+    tags: array(string),
+    event: optional(
+      object<NonNullable<GalleryImage['event']>>({
+        _id: string,
+        title: string,
+        date: string,
+      })
+    ),
+    uploadedBy: object<GalleryImage['uploadedBy']>({
+      _id: string,
+      name: string,
+    }),
+    isActive: boolean,
+    views: number,
+    likes: number,
+    featured: boolean,
+    createdAt: string,
+    updatedAt: string,
+  });
+
+export const contactDecoder: Decoder<Contact> = object<Contact>({
+  _id: string,
+  name: string,
+  email: string,
+  phone: optional(string),
+  subject: string,
+  message: string,
+  status: literal('new', 'in-progress', 'resolved', 'closed'),
+  priority: literal('low', 'medium', 'high', 'urgent'),
+  adminNotes: optional(string),
+  responseDate: optional(string),
+  whatsappSent: boolean,
+  whatsappSentAt: optional(string),
+  createdAt: string,
+  updatedAt: string,
+});
+
+export const inviteDecoder: Decoder<Invite> = object<Invite>({
+  _id: string,
+  email: string,
+  name: optional(string),
+  role: staffRole,
+  status: literal('pending', 'accepted', 'revoked', 'expired'),
+  invitedBy: object<Invite['invitedBy']>({
+    _id: string,
+    name: string,
+  }),
+  expiresAt: string,
+  acceptedAt: optional(string),
+  revokedAt: optional(string),
+  createdAt: string,
+  updatedAt: string,
+});
+
+export const inviteLinkResponseDecoder: Decoder<InviteLinkResponse> =
+  object<InviteLinkResponse>({
+    invite: inviteDecoder,
+    inviteUrl: string,
+  });
+
+export const inviteDetailsDecoder: Decoder<InviteDetails> =
+  object<InviteDetails>({
+    email: string,
+    name: optional(string),
+    role: staffRole,
+    expiresAt: string,
+  });
+
+export const paginationDecoder: Decoder<Pagination> = object<Pagination>({
+  currentPage: number,
+  totalPages: number,
+  total: number,
+  hasNext: boolean,
+  hasPrev: boolean,
+});
+
+export const authResponseDecoder: Decoder<AuthResponse> =
+  object<AuthResponse>({
+    token: string,
+    refreshToken: optional(string),
+    user: userDecoder,
+  });
+
+export const sessionInfoDecoder: Decoder<SessionInfo> = object<SessionInfo>({
+  user: nullable(userDecoder),
+  expiresAt: nullable(number),
+  canRefresh: boolean,
+});
+
+export const authSessionDecoder: Decoder<AuthSession> = object<AuthSession>({
+  user: userDecoder,
+  expiresAt: nullable(number),
+  canRefresh: boolean,
+});
+
+export const twoFactorChallengeDecoder: Decoder<TwoFactorChallenge> =
+  object<TwoFactorChallenge>({
+    challengeToken: string,
+    expiresAt: string,
+  });
+
+export const refreshResponseDecoder: Decoder<RefreshResponse> =
+  object<RefreshResponse>({
+    token: string,
+    refreshToken: optional(string),
+  });
+
+export const sessionDecoder: Decoder<Session> = object<Session>({
+  id: string,
+  device: string,
+  createdAt: string,
+  lastActiveAt: string,
+  current: boolean,
+});
+
+export const verifyEmailResponseDecoder: Decoder<VerifyEmailResponse> =
+  object<VerifyEmailResponse>({
+    message: string,
+    user: userDecoder,
+  });
+
+export const twoFactorStatusDecoder: Decoder<TwoFactorStatus> =
+  object<TwoFactorStatus>({
+    enabled: boolean,
+    required: boolean,
+    backupCodesRemaining: number,
+  });
+
+const waitlistEntryFields = {
+  _id: string,
+  eventId: string,
+  status: literal('waiting', 'offered', 'claimed', 'expired', 'left'),
+  position: nullable(number),
+  offeredAt: optional(string),
+  offerExpiresAt: optional(string),
+  createdAt: string,
+  updatedAt: string,
+};
+
+export const waitlistEntryDecoder: Decoder<WaitlistEntry> =
+  object<WaitlistEntry>(waitlistEntryFields);
+
+export const waitlistStateDecoder: Decoder<WaitlistState> =
+  object<WaitlistState>({
+    entry: nullable(waitlistEntryDecoder),
+    waiting: number,
+  });
+
+export const adminWaitlistEntryDecoder: Decoder<AdminWaitlistEntry> =
+  object<AdminWaitlistEntry>({
+    ...waitlistEntryFields,
+    user: object<AdminWaitlistEntry['user']>({
+      id: string,
+      name: string,
+      email: string,
+    }),
+  });
+
+export const adminWaitlistDecoder: Decoder<AdminWaitlist> =
+  object<AdminWaitlist>({
+    event: eventDecoder,
+    entries: array(adminWaitlistEntryDecoder),
+  });
+
+export const calendarFeedDecoder: Decoder<CalendarFeed> =
+  object<CalendarFeed>({
+    token: string,
+    createdAt: string,
+  });
+
+export const registrationFeedDecoder: Decoder<RegistrationFeed> =
+  object<RegistrationFeed>({
+    owner: string,
+    entries: array(
+      object<RegistrationFeed['entries'][number]>({
+        registrationId: string,
+        registrationStatus: literal(
+          'pending',
+          'confirmed',
+          'cancelled',
+          'completed'
+        ),
+        updatedAt: string,
+        event: eventDecoder,
+      })
+    ),
+  });
+
+export const twoFactorSetupDecoder: Decoder<TwoFactorSetup> =
+  object<TwoFactorSetup>({
+    secret: string,
+    otpauthUrl: string,
+  });
+
+export const twoFactorEnableResponseDecoder: Decoder<TwoFactorEnableResponse> =
+  object<TwoFactorEnableResponse>({
+    user: userDecoder,
+    backupCodes: array(string),
+  });
+
+export const dashboardStatsDecoder: Decoder<DashboardStats> =
+  object<DashboardStats>({
+    totalEvents: number,
+    totalRegistrations: number,
+    totalUsers: number,
+    totalGalleryImages: number,
+    recentRegistrations: array(registrationDecoder),
+    recentContacts: array(contactDecoder),
+  });
@@ -0,0 +1,201 @@
+import { EventFilters, EventSort } from '@/types';
+import { CalendarScale, parseDayKey } from './calendar';
+import { parseCoordinates } from './geo';
+
+// The events page filters exactly as they appear in the query string. Every
+// value is a string so an empty one simply drops out of the URL.
+export interface EventFilterState {
+  difficulty: string;
+  search: string;
+  minPrice: string;
+  maxPrice: string;
+  from: string;
+  to: string;
+  // Comma separated
+  tags: string;
+  // "true" to hide full events
+  available: string;
+  // "latitude,longitude"
+  near: string;
+  // km around `near`
+  radius: string;
+  sort: string;
+}
+
+export const DEFAULT_EVENT_FILTERS: EventFilterState = {
+  difficulty: '',
+  search: '',
+  minPrice: '',
+  maxPrice: '',
+  from: '',
+  to: '',
+  tags: '',
+  available: '',
+  near: '',
+  radius: '',
+  sort: '',
+};
+
+export const EVENT_SORT_OPTIONS: { value: EventSort; label: string }[] = [
+  { value: 'date', label: 'Soonest' },
+  { value: 'price', label: 'Cheapest' },
+  { value: 'spots', label: 'Most spots left' },
+];
+
+// The server renders the first page at the same size the browser asks for
+export const EVENT_PAGE_SIZE = 9;
+
+export const RADIUS_OPTIONS_KM = [25, 50, 100, 250, 500];
+
+export const DEFAULT_RADIUS_KM = 100;
+
+// Filters that live behind "More filters"; search, difficulty and sort
+// are always on show
+const ADVANCED_KEYS: (keyof EventFilterState)[] = [
+  'minPrice',
+  'maxPrice',
+  'from',
+  'to',
+  'tags',
+  'available',
+  'near',
+];
+
+const FILTER_KEYS = Object.keys(
+  DEFAULT_EVENT_FILTERS
+) as (keyof EventFilterState)[];
+
+export function parseEventFilters(params: {
+  get: (key: string) => string | null;
+}): EventFilterState {
+  const filters = { ...DEFAULT_EVENT_FILTERS };
+  FILTER_KEYS.forEach((key) => {
+    filters[key] = params.get(key)?.trim() ?? DEFAULT_EVENT_FILTERS[key];
+  });
+  return filters;
+}
+
+// Keys are written in a fixed order so the same filters always give the
+// same URL
+export function toEventQuery(filters: EventFilterState): string {
+  const params = new URLSearchParams();
+  FILTER_KEYS.forEach((key) => {
+    const value = filters[key].trim();
+    if (value !== DEFAULT_EVENT_FILTERS[key]) params.set(key, value);
+  });
+  return params.toString();
+}
+
+export type EventView = 'grid' | 'list' | 'calendar' | 'map';
+
+// How the events are shown; kept in the URL next to the filters but left
+// alone by "clear filters"
+export interface EventViewState {
+  view: EventView;
+  scale: CalendarScale;
+  // YYYY-MM-DD the calendar is showing; empty for today
+  date: string;
+}
+
+export const DEFAULT_EVENT_VIEW: EventViewState = {
+  view: 'grid',
+  scale: 'month',
+  date: '',
+};
+
+export const EVENT_VIEW_OPTIONS: { value: EventView; label: string }[] = [
+  { value: 'grid', label: 'Grid' },
+  { value: 'list', label: 'List' },
+  { value: 'calendar', label: 'Calendar' },
+  { value: 'map', label: 'Map' },
+];
+
+export function parseEventView(params: {
+  get: (key: string) => string | null;
+}): EventViewState {
+  const view = params.get('view');
+  const scale = params.get('scale');
+  const date = params.get('date');
+  return {
+    view: EVENT_VIEW_OPTIONS.some((option) => option.value === view)
+      ? (view as EventView)
+      : DEFAULT_EVENT_VIEW.view,
+    scale: scale === 'week' || scale === 'month' ? scale : 'month',
+    date: parseDayKey(date) ? date! : '',
+  };
+}
+
+// Filters first, then the view; the calendar keys only matter in the
+// calendar view
+export function toEventsSearch(
+  filters: EventFilterState,
+  view: EventViewState
+): string {
+  const params = new URLSearchParams(toEventQuery(filters));
+  if (view.view !== DEFAULT_EVENT_VIEW.view) params.set('view', view.view);
+  if (view.view === 'calendar') {
+    if (view.scale !== DEFAULT_EVENT_VIEW.scale) {
+      params.set('scale', view.scale);
+    }
+    if (view.date) params.set('date', view.date);
+  }
+  return params.toString();
+}
+
+// The public calendar feed only narrows by difficulty and tags
+export function toCalendarFeedPath(filters: EventFilterState): string {
+  const params = new URLSearchParams();
+  if (filters.difficulty) params.set('difficulty', filters.difficulty);
+  const tags = joinTags(splitTags(filters.tags));
+  if (tags) params.set('tags', tags);
+  const query = params.toString();
+  return query ? `/events/feed.ics?${query}` : '/events/feed.ics';
+}
+
+export function hasActiveFilters(filters: EventFilterState): boolean {
+  return toEventQuery(filters) !== '';
+}
+
+export function countAdvancedFilters(filters: EventFilterState): number {
+  return ADVANCED_KEYS.filter((key) => filters[key] !== '').length;
+}
+
+export function splitTags(tags: string): string[] {
+  return tags
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+export function joinTags(tags: string[]): string {
+  return [...new Set(tags)].sort().join(',');
+}
+
+function toNumber(value: string): number | undefined {
+  const parsed = value.trim() === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toSort(value: string): EventSort | undefined {
+  return EVENT_SORT_OPTIONS.some((option) => option.value === value)
+    ? (value as EventSort)
+    : undefined;
+}
+
+// Values that don't parse are left out instead of failing the request
+export function toEventFilters(filters: EventFilterState): EventFilters {
+  const near = parseCoordinates(filters.near) ? filters.near : undefined;
+  return {
+    difficulty: filters.difficulty || undefined,
+    search: filters.search.trim() || undefined,
+    minPrice: toNumber(filters.minPrice),
+    maxPrice: toNumber(filters.maxPrice),
+    from: filters.from || undefined,
+    to: filters.to || undefined,
+    tags: joinTags(splitTags(filters.tags)) || undefined,
+    available: filters.available === 'true' || undefined,
+    near,
+    radius: near ? toNumber(filters.radius) ?? DEFAULT_RADIUS_KM : undefined,
+    sort: toSort(filters.sort),
+  };
+}
@@ -0,0 +1,48 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180;
+}
+
+// Great-circle (haversine) distance; close enough for "within 100 km"
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// "lat,lng" as used in query strings; null unless both parts are in range
+export function parseCoordinates(
+  value: string | undefined | null
+): Coordinates | null {
+  const raw = (value || '').split(',').map((part) => part.trim());
+  const parts = raw.map(Number);
+  if (
+    raw.length !== 2 ||
+    raw.some((part) => part === '') ||
+    parts.some((part) => !Number.isFinite(part))
+  ) {
+    return null;
+  }
+  const [latitude, longitude] = parts;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
+
+export function formatCoordinates({ latitude, longitude }: Coordinates) {
+  return `${latitude.toFixed(4)},${longitude.toFixed(4)}`;
+}
+
+export function formatDistance(km: number): string {
+  return km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+}
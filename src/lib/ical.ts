@@ -0,0 +1,235 @@
+import { Event, RegistrationFeedEntry } from '@/types';
+import { Coordinates } from './geo';
+import { generateSlug } from './utils';
+
+// Just enough of RFC 5545 to publish events: one VCALENDAR of VEVENTs,
+// escaped, folded and CRLF terminated.
+
+export interface CalendarEntry {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  geo?: Coordinates;
+  url?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  lastModified?: Date;
+}
+
+export interface CalendarOptions {
+  name?: string;
+  // How often subscribed calendars should check for changes
+  refreshMinutes?: number;
+}
+
+const PRODUCT_ID = '-//Off-Road Adventures//Events//EN';
+const UID_DOMAIN = 'offroad-adventures';
+
+// Used when Event.duration can't be understood
+export const DEFAULT_DURATION_MINUTES = 4 * 60;
+
+// How long a day on the trail lasts, e.g. 8:00 to 18:00
+const TRAIL_DAY_HOURS = 10;
+
+const UNIT_MINUTES: Record<string, number> = {
+  minute: 1,
+  hour: 60,
+  // An overnight trip, evening to morning; only counted when no days are
+  // given, since "3 days 2 nights" already spans those nights
+  night: 12 * 60,
+  week: 7 * 24 * 60,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  m: 'minute',
+  min: 'minute',
+  mins: 'minute',
+  h: 'hour',
+  hr: 'hour',
+  hrs: 'hour',
+  d: 'day',
+  w: 'week',
+};
+
+// A trip of N days ends on the evening of day N, not the morning after
+function dayMinutes(days: number) {
+  const hours =
+    days >= 1 ? (days - 1) * 24 + TRAIL_DAY_HOURS : days * TRAIL_DAY_HOURS;
+  return hours * 60;
+}
+
+// "4 hours", "2 days", "1 day 3 hours", "2-3 hours" (the longer end),
+// "half day". Nights only count on their own: "3 days 2 nights" is the same
+// trip as "3 days", "1 night" is 12 hours. null when nothing in it looks like
+// a length of time
+export function parseDuration(duration: string): number | null {
+  const text = duration.toLowerCase();
+  if (/\bhalf[ -]day\b/.test(text)) return dayMinutes(0.5);
+  if (/\bfull[ -]day\b/.test(text)) return dayMinutes(1);
+
+  const pattern =
+    /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*([a-z]+)/g;
+  let total = 0;
+  let nights = 0;
+  let hasDays = false;
+  for (const [, low, high, word] of text.matchAll(pattern)) {
+    const singular = word.replace(/s$/, '');
+    const unit = UNIT_ALIASES[word] || UNIT_ALIASES[singular] || singular;
+    const amount = Number(high ?? low);
+    if (unit === 'day') {
+      total += dayMinutes(amount);
+      hasDays = true;
+    } else if (unit === 'night') {
+      nights += amount * UNIT_MINUTES.night;
+    } else if (unit in UNIT_MINUTES) {
+      total += amount * UNIT_MINUTES[unit];
+    }
+  }
+  if (!hasDays) total += nights;
+  return total > 0 ? Math.round(total) : null;
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+// UTC date-time, e.g. 20261019T083000Z
+export function formatICalDate(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}` +
+    `${pad(date.getUTCDate())}T${pad(date.getUTCHours())}` +
+    `${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/[;,]/g, (char) => `\\${char}`);
+}
+
+// Lines longer than 75 octets continue on the next line after a space.
+// Counts UTF-8 bytes and never splits a character.
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + bytes > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function entryLines(entry: CalendarEntry, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${entry.uid}`,
+    `DTSTAMP:${formatICalDate(stamp)}`,
+    `DTSTART:${formatICalDate(entry.start)}`,
+    `DTEND:${formatICalDate(entry.end)}`,
+    `SUMMARY:${escapeText(entry.summary)}`,
+  ];
+  if (entry.description) {
+    lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+  }
+  if (entry.location) lines.push(`LOCATION:${escapeText(entry.location)}`);
+  if (entry.geo) {
+    lines.push(`GEO:${entry.geo.latitude};${entry.geo.longitude}`);
+  }
+  if (entry.url) lines.push(`URL:${entry.url}`);
+  if (entry.status) lines.push(`STATUS:${entry.status}`);
+  if (entry.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatICalDate(entry.lastModified)}`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function toICalendar(
+  entries: CalendarEntry[],
+  options: CalendarOptions = {}
+): string {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  if (options.refreshMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+      `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`
+    );
+  }
+  entries.forEach((entry) => lines.push(...entryLines(entry, stamp)));
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// `origin` is the site's own origin, used for the event link
+export function toCalendarEntry(event: Event, origin: string): CalendarEntry {
+  const start = new Date(event.date);
+  const minutes = parseDuration(event.duration) ?? DEFAULT_DURATION_MINUTES;
+  const url = `${origin}/events/${event._id}`;
+  const updatedAt = new Date(event.updatedAt);
+  return {
+    uid: `${event._id}@${UID_DOMAIN}`,
+    start,
+    end: new Date(start.getTime() + minutes * 60 * 1000),
+    summary: event.title,
+    description: [
+      event.description,
+      `Difficulty: ${event.difficulty} · Duration: ${event.duration}`,
+      url,
+    ].join('\n\n'),
+    location: event.location.address,
+    geo: event.location.coordinates,
+    url,
+    status: event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    lastModified: isNaN(updatedAt.getTime()) ? undefined : updatedAt,
+  };
+}
+
+// One registration in a member's feed. Keyed by the registration so signing
+// up again after a cancellation shows up as a new entry.
+export function toRegistrationEntry(
+  registration: RegistrationFeedEntry,
+  origin: string
+): CalendarEntry {
+  const entry = toCalendarEntry(registration.event, origin);
+  const registrationUpdated = new Date(registration.updatedAt);
+  return {
+    ...entry,
+    uid: `${registration.registrationId}@${UID_DOMAIN}`,
+    status:
+      entry.status === 'CANCELLED'
+        ? 'CANCELLED'
+        : registration.registrationStatus === 'pending'
+        ? 'TENTATIVE'
+        : 'CONFIRMED',
+    lastModified:
+      entry.lastModified && entry.lastModified > registrationUpdated
+        ? entry.lastModified
+        : registrationUpdated,
+  };
+}
+
+export function calendarFileName(title: string): string {
+  return `${generateSlug(title) || 'event'}.ics`;
+}
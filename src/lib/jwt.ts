@@ -0,0 +1,26 @@
+export interface TokenClaims {
+  sub?: string;
+  role?: string;
+  iat?: number;
+  exp?: number;
+}
+
+// Reads the payload of a JWT without verifying it. Only use the result for
+// routing decisions; the API remains responsible for enforcing access.
+export function decodeToken(token: string | null | undefined): TokenClaims | null {
+  if (!token) return null;
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const claims = JSON.parse(atob(padded));
+    return claims && typeof claims === 'object' ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isTokenExpired(claims: TokenClaims | null, now: number = Date.now()) {
+  return typeof claims?.exp === 'number' && claims.exp * 1000 <= now;
+}
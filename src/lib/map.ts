@@ -0,0 +1,83 @@
+import { Coordinates } from './geo';
+
+// Where map tiles come from. Any {z}/{x}/{y} template works, so a
+// self-hosted tile server can be swapped in through the environment.
+export interface TileSource {
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+export const OSM_TILE_SOURCE: TileSource = {
+  url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution:
+    '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: 19,
+};
+
+// Plain placeholder tiles drawn by the app itself (src/app/tiles), so maps
+// render without network access
+export const LOCAL_TILE_SOURCE: TileSource = {
+  url: '/tiles/{z}/{x}/{y}',
+  attribution: 'Placeholder tiles',
+  maxZoom: 18,
+};
+
+const USE_MOCK_API = process.env.NEXT_PUBLIC_USE_MOCK_API === 'true';
+
+// NEXT_PUBLIC_MAP_TILE_URL wins; otherwise mock mode stays offline and
+// everything else uses OpenStreetMap
+export function getTileSource(): TileSource {
+  const url = process.env.NEXT_PUBLIC_MAP_TILE_URL;
+  if (url) {
+    return {
+      url,
+      attribution: process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || '',
+      maxZoom:
+        Number(process.env.NEXT_PUBLIC_MAP_MAX_ZOOM) ||
+        OSM_TILE_SOURCE.maxZoom,
+    };
+  }
+  return USE_MOCK_API ? LOCAL_TILE_SOURCE : OSM_TILE_SOURCE;
+}
+
+export interface MapPoint<T> {
+  x: number;
+  y: number;
+  item: T;
+}
+
+export interface MapCluster<T> {
+  // Average position of the members, in the same pixel space as the input
+  x: number;
+  y: number;
+  items: T[];
+}
+
+// Groups points falling in the same square of `cellSize` pixels. Crude next
+// to distance-based clustering, but stable and plenty for a few hundred pins.
+export function clusterPoints<T>(
+  points: MapPoint<T>[],
+  cellSize: number
+): MapCluster<T>[] {
+  const cells = new Map<string, MapPoint<T>[]>();
+  points.forEach((point) => {
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(
+      point.y / cellSize
+    )}`;
+    cells.set(key, [...(cells.get(key) || []), point]);
+  });
+  return [...cells.values()].map((members) => ({
+    x: members.reduce((sum, point) => sum + point.x, 0) / members.length,
+    y: members.reduce((sum, point) => sum + point.y, 0) / members.length,
+    items: members.map((point) => point.item),
+  }));
+}
+
+export function isSamePlace(points: Coordinates[]): boolean {
+  return points.every(
+    (point) =>
+      point.latitude === points[0].latitude &&
+      point.longitude === points[0].longitude
+  );
+}
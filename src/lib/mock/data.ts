@@ -0,0 +1,581 @@
+import {
+  CalendarFeed,
+  Contact,
+  Event,
+  GalleryImage,
+  Invite,
+  Registration,
+  User,
+  WaitlistEntry,
+} from '@/types';
+
+export interface MockUser extends User {
+  password: string;
+  totpSecret?: string;
+  // Set during enrollment until the first code confirms it
+  pendingTotpSecret?: string;
+  backupCodes: string[];
+  // Secret in the personal calendar feed URL, created on first request
+  calendarFeed?: CalendarFeed;
+}
+
+// Registrations keep references by id and are populated when served
+export interface MockRegistration
+  extends Omit<Registration, 'event' | 'user'> {
+  event: string;
+  user: string;
+}
+
+// Array order in the store is queue order; position is derived when served
+export interface MockWaitlistEntry
+  extends Omit<WaitlistEntry, 'eventId' | 'position'> {
+  event: string;
+  user: string;
+}
+
+// The status stored here is never 'expired'; that is derived when served.
+// tokenId is the jti of the only invite link that is currently valid.
+export interface MockInvite extends Invite {
+  tokenId: string;
+}
+
+// A signed-in device; access and refresh tokens carry its id as `sid`
+export interface MockSession {
+  id: string;
+  userId: string;
+  device: string;
+  createdAt: string;
+  lastActiveAt: string;
+}
+
+export interface MockDatabase {
+  users: MockUser[];
+  // Ids of rotated refresh tokens, used one-time links and ended sessions
+  revokedTokens: string[];
+  sessions: MockSession[];
+  // Timestamps of reset and verification emails per purpose and address,
+  // for rate limiting
+  emailRequests: Record<string, number[]>;
+  // Failed second-factor attempts per sign-in challenge
+  twoFactorAttempts: Record<string, number>;
+  events: Event[];
+  registrations: MockRegistration[];
+  waitlist: MockWaitlistEntry[];
+  gallery: GalleryImage[];
+  contacts: Contact[];
+  invites: MockInvite[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * DAY).toISOString();
+}
+
+// Inline SVG so seeded images render without any network access
+export function placeholderImage(label: string, color: string): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="500"><rect width="100%" height="100%" fill="${color}"/><text x="50%" y="50%" font-family="sans-serif" font-size="40" fill="#fff" text-anchor="middle" dominant-baseline="middle">${label}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+// Shared through globalThis like the store itself, see server.ts
+const idGlobal = globalThis as typeof globalThis & { mockSequence?: number };
+
+export function nextId(prefix: string): string {
+  const sequence = (idGlobal.mockSequence ?? 1000) + 1;
+  idGlobal.mockSequence = sequence;
+  return `${prefix}${sequence.toString(16).padStart(20, '0')}`;
+}
+
+const admin: MockUser = {
+  id: 'user-admin',
+  name: 'Trail Admin',
+  email: 'admin@offroad.com',
+  phone: '+15550000001',
+  role: 'admin',
+  emailVerified: true,
+  // Enrolled with a fixed secret so the README can document it
+  twoFactorEnabled: true,
+  createdAt: daysFromNow(-400),
+  password: 'admin123',
+  totpSecret: 'OFFROADADMINTOTP',
+  backupCodes: [
+    '4f2a-9c1e',
+    '7b3d-2e8f',
+    '1c6e-5a9b',
+    '8d4f-3b7a',
+    '2e9c-6f1d',
+  ],
+};
+
+const rider: MockUser = {
+  id: 'user-rider',
+  name: 'Riley Rider',
+  email: 'rider@example.com',
+  phone: '+15550000002',
+  role: 'user',
+  emailVerified: true,
+  twoFactorEnabled: false,
+  createdAt: daysFromNow(-120),
+  password: 'password123',
+  backupCodes: [],
+};
+
+// One account per staff role so each permission set can be tried out
+const staff: MockUser[] = [
+  {
+    id: 'user-events',
+    name: 'Evan Events',
+    email: 'events@offroad.com',
+    phone: '+15550000003',
+    role: 'event_manager',
+    emailVerified: true,
+    twoFactorEnabled: false,
+    createdAt: daysFromNow(-300),
+    password: 'events123',
+    backupCodes: [],
+  },
+  {
+    id: 'user-media',
+    name: 'Mia Lens',
+    email: 'media@offroad.com',
+    phone: '+15550000004',
+    role: 'media_manager',
+    emailVerified: true,
+    twoFactorEnabled: false,
+    createdAt: daysFromNow(-250),
+    password: 'media123',
+    backupCodes: [],
+  },
+  {
+    id: 'user-guide',
+    name: 'Gus Guide',
+    email: 'guide@offroad.com',
+    phone: '+15550000005',
+    role: 'guide',
+    emailVerified: true,
+    twoFactorEnabled: false,
+    createdAt: daysFromNow(-200),
+    password: 'guide123',
+    backupCodes: [],
+  },
+  {
+    id: 'user-support',
+    name: 'Sam Support',
+    email: 'support@offroad.com',
+    phone: '+15550000006',
+    role: 'support_agent',
+    emailVerified: true,
+    twoFactorEnabled: false,
+    createdAt: daysFromNow(-150),
+    password: 'support123',
+    backupCodes: [],
+  },
+];
+
+const createdBy = { _id: admin.id, name: admin.name, email: admin.email };
+
+interface EventSeed {
+  title: string;
+  shortDescription: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  inDays: number;
+  price: number;
+  maxParticipants: number;
+  currentParticipants: number;
+  difficulty: Event['difficulty'];
+  duration: string;
+  tags: string[];
+  status?: Event['status'];
+  color: string;
+}
+
+const eventSeeds: EventSeed[] = [
+  {
+    title: 'Desert Dunes Discovery',
+    shortDescription: 'A gentle introduction to sand driving on rolling dunes.',
+    address: 'Glamis Dunes, CA',
+    latitude: 32.9953,
+    longitude: -115.0739,
+    inDays: 12,
+    price: 95,
+    maxParticipants: 20,
+    currentParticipants: 8,
+    difficulty: 'Beginner',
+    duration: '1 day',
+    tags: ['desert', 'sand', 'family'],
+    color: '#d97706',
+  },
+  {
+    title: 'Rubicon Trail Challenge',
+    shortDescription: 'The legendary granite slabs of the Rubicon over two days.',
+    address: 'Rubicon Trail, Tahoe, CA',
+    latitude: 39.0247,
+    longitude: -120.2425,
+    inDays: 30,
+    price: 320,
+    maxParticipants: 12,
+    currentParticipants: 12,
+    difficulty: 'Expert',
+    duration: '2 days',
+    tags: ['rocks', 'camping', 'winching'],
+    color: '#7c2d12',
+  },
+  {
+    title: 'Moab Slickrock Weekend',
+    shortDescription: 'Iconic red-rock climbs with expert spotters.',
+    address: 'Moab, UT',
+    latitude: 38.5733,
+    longitude: -109.5498,
+    inDays: 21,
+    price: 240,
+    maxParticipants: 16,
+    currentParticipants: 10,
+    difficulty: 'Advanced',
+    duration: '2 days',
+    tags: ['rocks', 'desert', 'camping'],
+    color: '#b91c1c',
+  },
+  {
+    title: 'Forest Mud Run',
+    shortDescription: 'Muddy forest tracks, water crossings and a BBQ finish.',
+    address: 'Uwharrie National Forest, NC',
+    latitude: 35.4282,
+    longitude: -80.0134,
+    inDays: 40,
+    price: 140,
+    maxParticipants: 25,
+    currentParticipants: 5,
+    difficulty: 'Intermediate',
+    duration: '1 day',
+    tags: ['mud', 'forest', 'water crossing'],
+    color: '#166534',
+  },
+  {
+    title: 'Mountain Pass Explorer',
+    shortDescription: 'High-altitude passes with panoramic views.',
+    address: 'Ouray, CO',
+    latitude: 38.0228,
+    longitude: -107.6714,
+    inDays: 55,
+    price: 180,
+    maxParticipants: 18,
+    currentParticipants: 3,
+    difficulty: 'Intermediate',
+    duration: '3 days',
+    tags: ['mountain', 'scenic', 'camping'],
+    color: '#1d4ed8',
+  },
+  {
+    title: 'Sunset Beginner Trail',
+    shortDescription: 'An easy evening trail finishing at a sunset viewpoint.',
+    address: 'Hollister Hills, CA',
+    latitude: 36.8002,
+    longitude: -121.4113,
+    inDays: 6,
+    price: 65,
+    maxParticipants: 30,
+    currentParticipants: 14,
+    difficulty: 'Beginner',
+    duration: '4 hours',
+    tags: ['scenic', 'family', 'evening'],
+    color: '#ea580c',
+  },
+  {
+    title: 'Night Navigation Rally',
+    shortDescription: 'Find your way by map and compass after dark.',
+    address: 'Hatfield-McCoy Trails, WV',
+    latitude: 37.6681,
+    longitude: -81.8654,
+    inDays: 75,
+    price: 150,
+    maxParticipants: 20,
+    currentParticipants: 0,
+    difficulty: 'Advanced',
+    duration: '1 night',
+    tags: ['navigation', 'night', 'forest'],
+    color: '#312e81',
+  },
+  {
+    title: 'Spring Trail Clean-up',
+    shortDescription: 'Give back to the trails that give us so much.',
+    address: 'Hollister Hills, CA',
+    latitude: 36.8002,
+    longitude: -121.4113,
+    inDays: -20,
+    price: 0,
+    maxParticipants: 40,
+    currentParticipants: 22,
+    difficulty: 'Beginner',
+    duration: '1 day',
+    tags: ['community', 'family'],
+    status: 'completed',
+    color: '#4b5563',
+  },
+  {
+    title: 'Winter Snow Wheeling',
+    shortDescription: 'Snow driving techniques and recovery drills.',
+    address: 'Big Bear Lake, CA',
+    latitude: 34.2439,
+    longitude: -116.9114,
+    inDays: 120,
+    price: 210,
+    maxParticipants: 14,
+    currentParticipants: 0,
+    difficulty: 'Advanced',
+    duration: '2 days',
+    tags: ['snow', 'mountain', 'recovery'],
+    status: 'draft',
+    color: '#0e7490',
+  },
+];
+
+function seedEvent(seed: EventSeed, index: number): Event {
+  const date = daysFromNow(seed.inDays);
+  return {
+    _id: `event-${index + 1}`,
+    title: seed.title,
+    description: `${seed.shortDescription}\nOur guides brief every group before departure and stay with you on the trail. Bring a full tank and a sense of adventure.`,
+    shortDescription: seed.shortDescription,
+    date,
+    location: {
+      address: seed.address,
+      coordinates: { latitude: seed.latitude, longitude: seed.longitude },
+    },
+    price: seed.price,
+    maxParticipants: seed.maxParticipants,
+    currentParticipants: seed.currentParticipants,
+    difficulty: seed.difficulty,
+    duration: seed.duration,
+    images: [
+      {
+        url: placeholderImage(seed.title, seed.color),
+        alt: seed.title,
+        isPrimary: true,
+      },
+      {
+        url: placeholderImage(`${seed.title} — trail`, '#374151'),
+        alt: `${seed.title} trail`,
+        isPrimary: false,
+      },
+    ],
+    equipment: ['Recovery straps', 'Tyre deflator', 'Two-way radio'],
+    requirements: ['Valid driving licence', 'Vehicle with 4x4'],
+    includes: ['Trail guide', 'Lunch', 'Photos'],
+    status: seed.status || 'active',
+    registrationDeadline: daysFromNow(seed.inDays - 2),
+    createdBy,
+    tags: seed.tags,
+    createdAt: daysFromNow(-60),
+    updatedAt: daysFromNow(-10),
+    isFull: seed.currentParticipants >= seed.maxParticipants,
+    availableSpots: Math.max(seed.maxParticipants - seed.currentParticipants, 0),
+  };
+}
+
+const galleryCategories: GalleryImage['category'][] = [
+  'Events',
+  'Vehicles',
+  'Landscapes',
+  'Action',
+  'Group Photos',
+  'Other',
+];
+
+function seedGallery(events: Event[]): GalleryImage[] {
+  return galleryCategories.flatMap((category, categoryIndex) =>
+    [0, 1].map((n) => {
+      const event = category === 'Events' ? events[n] : undefined;
+      const title = `${category} ${n + 1}`;
+      return {
+        _id: `image-${categoryIndex * 2 + n + 1}`,
+        title,
+        description: `${category} from our recent adventures`,
+        imageUrl: placeholderImage(title, n ? '#57534e' : '#c2410c'),
+        altText: title,
+        category,
+        tags: [category.toLowerCase()],
+        event: event
+          ? { _id: event._id, title: event.title, date: event.date }
+          : undefined,
+        uploadedBy: { _id: admin.id, name: admin.name },
+        isActive: true,
+        views: 40 + categoryIndex * 7 + n,
+        likes: 5 + categoryIndex + n,
+        featured: n === 0,
+        createdAt: daysFromNow(-30 + categoryIndex),
+        updatedAt: daysFromNow(-30 + categoryIndex),
+      };
+    })
+  );
+}
+
+function seedRegistrations(events: Event[]): MockRegistration[] {
+  return [events[0], events[2], events[7]].map((event, index) => ({
+    _id: `registration-${index + 1}`,
+    event: event._id,
+    user: rider.id,
+    participantDetails: {
+      name: rider.name,
+      email: rider.email,
+      phone: rider.phone,
+      emergencyContact: {
+        name: 'Sam Rider',
+        phone: '+15550000003',
+        relationship: 'Sibling',
+      },
+      medicalConditions: '',
+      experience: 'Some Experience',
+      vehicleDetails: {
+        make: 'Toyota',
+        model: '4Runner',
+        year: 2019,
+        modifications: '2" lift, all-terrain tyres',
+      },
+    },
+    registrationStatus:
+      event.status === 'completed'
+        ? 'completed'
+        : index
+        ? 'pending'
+        : 'confirmed',
+    paymentStatus: index ? 'pending' : 'paid',
+    registrationDate: daysFromNow(-14 + index),
+    paymentAmount: event.price,
+    waiverSigned: true,
+    createdAt: daysFromNow(-14 + index),
+    updatedAt: daysFromNow(-14 + index),
+  }));
+}
+
+function seedContacts(): Contact[] {
+  return [
+    {
+      _id: 'contact-1',
+      name: 'Jordan Lee',
+      email: 'jordan@example.com',
+      phone: '+15550000004',
+      subject: 'Group booking',
+      message: 'Can we book the Moab weekend for a group of six vehicles?',
+      status: 'new',
+      priority: 'high',
+      whatsappSent: true,
+      whatsappSentAt: daysFromNow(-2),
+      createdAt: daysFromNow(-2),
+      updatedAt: daysFromNow(-2),
+    },
+    {
+      _id: 'contact-2',
+      name: 'Casey Morgan',
+      email: 'casey@example.com',
+      subject: 'Vehicle requirements',
+      message: 'Is a stock Subaru Outback fine for the beginner trail?',
+      status: 'resolved',
+      priority: 'low',
+      adminNotes: 'Replied by email, stock AWD is fine.',
+      responseDate: daysFromNow(-5),
+      whatsappSent: false,
+      createdAt: daysFromNow(-6),
+      updatedAt: daysFromNow(-5),
+    },
+  ];
+}
+
+// A queue on the fully booked event, for the waitlist admin tab
+function seedWaitlist(events: Event[]): MockWaitlistEntry[] {
+  const waiting = (id: string, user: MockUser, joined: number) => ({
+    _id: id,
+    event: events[1]._id,
+    user: user.id,
+    status: 'waiting' as const,
+    createdAt: daysFromNow(joined),
+    updatedAt: daysFromNow(joined),
+  });
+  return [
+    waiting('waitlist-guide', staff[2], -4),
+    waiting('waitlist-support', staff[3], -2),
+  ];
+}
+
+// Sessions on other devices, so the account page has something to revoke
+function seedSessions(): MockSession[] {
+  return [
+    {
+      id: 'session-admin-phone',
+      userId: admin.id,
+      device: 'Safari on iOS',
+      createdAt: daysFromNow(-12),
+      lastActiveAt: daysFromNow(-1),
+    },
+    {
+      id: 'session-rider-laptop',
+      userId: rider.id,
+      device: 'Firefox on Windows',
+      createdAt: daysFromNow(-20),
+      lastActiveAt: daysFromNow(-3),
+    },
+  ];
+}
+
+// Seeded links were never handed out, so their token ids match nothing
+function seedInvites(): MockInvite[] {
+  const invitedBy = { _id: admin.id, name: admin.name };
+  return [
+    {
+      _id: 'invite-events',
+      email: 'events@offroad.com',
+      name: 'Evan Events',
+      role: 'event_manager',
+      status: 'accepted',
+      invitedBy,
+      expiresAt: daysFromNow(-293),
+      acceptedAt: daysFromNow(-300),
+      createdAt: daysFromNow(-301),
+      updatedAt: daysFromNow(-300),
+      tokenId: 'token-seed-events',
+    },
+    {
+      _id: 'invite-photographer',
+      email: 'photos@example.com',
+      name: 'Pat Photographer',
+      role: 'media_manager',
+      status: 'revoked',
+      invitedBy,
+      expiresAt: daysFromNow(-23),
+      revokedAt: daysFromNow(-28),
+      createdAt: daysFromNow(-30),
+      updatedAt: daysFromNow(-28),
+      tokenId: 'token-seed-photographer',
+    },
+    {
+      _id: 'invite-guide',
+      email: 'trail.lead@example.com',
+      role: 'guide',
+      status: 'pending',
+      invitedBy,
+      expiresAt: daysFromNow(5),
+      createdAt: daysFromNow(-2),
+      updatedAt: daysFromNow(-2),
+      tokenId: 'token-seed-guide',
+    },
+  ];
+}
+
+export function createDatabase(): MockDatabase {
+  const events = eventSeeds.map(seedEvent);
+  return {
+    users: [admin, rider, ...staff],
+    revokedTokens: [],
+    sessions: seedSessions(),
+    emailRequests: {},
+    twoFactorAttempts: {},
+    events,
+    registrations: seedRegistrations(events),
+    waitlist: seedWaitlist(events),
+    gallery: seedGallery(events),
+    contacts: seedContacts(),
+    invites: seedInvites(),
+  };
+}
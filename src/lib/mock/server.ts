@@ -0,0 +1,1751 @@
+import {
+  AdminWaitlistEntry,
+  CalendarFeed,
+  Event,
+  GalleryImage,
+  Invite,
+  PermissionAction,
+  PermissionResource,
+  Registration,
+  StaffRole,
+  TwoFactorMethod,
+  User,
+  WaitlistEntry,
+} from '@/types';
+import {
+  can,
+  needsTwoFactorSetup,
+  requiresTwoFactor,
+  STAFF_ROLES,
+} from '@/lib/permissions';
+import {
+  createDatabase,
+  MockDatabase,
+  MockInvite,
+  MockRegistration,
+  MockSession,
+  MockUser,
+  MockWaitlistEntry,
+  nextId,
+  placeholderImage,
+} from './data';
+import { generateSecret, generateTotp, otpauthUrl, verifyTotp } from './totp';
+import { distanceKm, parseCoordinates } from '@/lib/geo';
+
+// Uploads are read up front, since handlers run synchronously
+export interface MockFile {
+  name: string;
+  type: string;
+  size: number;
+  dataUrl: string;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: Record<string, unknown>;
+  files: Record<string, MockFile[]>;
+  token: string | null;
+  userAgent: string;
+}
+
+export interface MockResponse {
+  status: number;
+  data: unknown;
+}
+
+interface HandlerContext {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: Record<string, unknown>;
+  files: Record<string, MockFile[]>;
+  user: MockUser | null;
+  sessionId: string | null;
+  userAgent: string;
+}
+
+type Handler = (context: HandlerContext) => MockResponse;
+
+type Access =
+  | 'public'
+  | 'user'
+  | { action: PermissionAction; resource: PermissionResource };
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  access: Access;
+  handler: Handler;
+}
+
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// Short-lived access tokens so the refresh flow gets exercised offline
+const TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TTL_SECONDS = 30 * 24 * 60 * 60;
+const RESET_TTL_SECONDS = 30 * 60;
+const VERIFY_TTL_SECONDS = 24 * 60 * 60;
+const INVITE_TTL_SECONDS = 7 * 24 * 60 * 60;
+const TWO_FACTOR_TTL_SECONDS = 5 * 60;
+// How long a waitlisted member has to register once offered a spot
+const WAITLIST_CLAIM_SECONDS = 24 * 60 * 60;
+
+// A sign-in challenge is dropped after this many wrong codes
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+const BACKUP_CODE_COUNT = 10;
+const TOTP_ISSUER = 'Off-Road Adventures';
+
+// At most three emails of each kind per address every 15 minutes
+const EMAIL_REQUEST_LIMIT = 3;
+const EMAIL_REQUEST_WINDOW_MS = 15 * 60 * 1000;
+
+// Route handlers are bundled separately and re-evaluated on reload in
+// development, so the store lives on globalThis to stay shared between them
+const mockGlobal = globalThis as typeof globalThis & {
+  mockDatabase?: MockDatabase;
+};
+const db: MockDatabase = (mockGlobal.mockDatabase ??= createDatabase());
+
+export function resetMockDatabase() {
+  Object.assign(db, createDatabase());
+}
+
+function ok(data: unknown, status: number = 200): MockResponse {
+  return { status, data };
+}
+
+function base64UrlEncode(value: string): string {
+  return btoa(value).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+function base64UrlDecode(value: string): string {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(padded + '='.repeat((4 - (padded.length % 4)) % 4));
+}
+
+interface TokenPayload {
+  sub: string;
+  role: User['role'];
+  kind: 'access' | 'refresh' | 'reset' | 'verify' | 'invite' | 'two-factor';
+  jti: string;
+  sid?: string;
+  // Invite links carry the invited address; `sub` is then the invite id
+  email?: string;
+  iat: number;
+  exp: number;
+}
+
+// JWT-shaped so the frontend can decode it like a real backend token. Tokens
+// are stateless, so sessions survive the in-memory store resetting on reload.
+export function issueToken(
+  user: User,
+  kind: TokenPayload['kind'] = 'access',
+  ttlSeconds: number = kind === 'access' ? TOKEN_TTL_SECONDS : REFRESH_TTL_SECONDS,
+  sessionId?: string
+) {
+  const now = Math.floor(Date.now() / 1000);
+  return signToken({
+    sub: user.id,
+    role: user.role,
+    kind,
+    jti: nextId('token-'),
+    sid: sessionId,
+    iat: now,
+    exp: now + ttlSeconds,
+  });
+}
+
+function signToken(payload: TokenPayload): string {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  return `${header}.${base64UrlEncode(JSON.stringify(payload))}.mock`;
+}
+
+function parseToken(token: string | null): TokenPayload | null {
+  if (!token) return null;
+  try {
+    const payload = JSON.parse(base64UrlDecode(token.split('.')[1]));
+    return typeof payload.exp === 'number' ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function readToken(
+  token: string | null,
+  kind: TokenPayload['kind']
+): TokenPayload | null {
+  const payload = parseToken(token);
+  if (
+    !payload ||
+    payload.kind !== kind ||
+    payload.exp * 1000 < Date.now() ||
+    db.revokedTokens.includes(payload.jti) ||
+    (payload.sid && db.revokedTokens.includes(payload.sid))
+  ) {
+    return null;
+  }
+  return payload;
+}
+
+// Unlike session tokens, emailed links report why they can't be used
+function readEmailToken(
+  token: string,
+  kind: 'reset' | 'verify'
+): { payload: TokenPayload; user: MockUser } {
+  const label = kind === 'reset' ? 'reset' : 'verification';
+  const payload = parseToken(token);
+  const user =
+    payload?.kind === kind &&
+    !db.revokedTokens.includes(payload.jti) &&
+    db.users.find((item) => item.id === payload.sub);
+  if (!payload || !user) {
+    throw new HttpError(400, `This ${label} link is invalid or has already been used`);
+  }
+  if (payload.exp * 1000 < Date.now()) {
+    throw new HttpError(410, `This ${label} link has expired`);
+  }
+  return { payload, user };
+}
+
+function limitEmailRequests(purpose: 'reset' | 'verify', email: string) {
+  const key = `${purpose}:${email}`;
+  const now = Date.now();
+  const recent = (db.emailRequests[key] || []).filter(
+    (time) => now - time < EMAIL_REQUEST_WINDOW_MS
+  );
+  if (recent.length >= EMAIL_REQUEST_LIMIT) {
+    const minutes = Math.ceil(
+      (recent[0] + EMAIL_REQUEST_WINDOW_MS - now) / 60000
+    );
+    throw new HttpError(
+      429,
+      `Too many requests, please try again in ${minutes} minute${minutes === 1 ? '' : 's'}`
+    );
+  }
+  db.emailRequests[key] = [...recent, now];
+}
+
+// There is no mail server offline, so emailed links are logged instead
+function logEmail(email: string, link: string) {
+  console.info(`[mock api] Email to ${email}: ${link}`);
+}
+
+function sendEmailLink(user: MockUser, kind: 'reset' | 'verify') {
+  const token = issueToken(
+    user,
+    kind,
+    kind === 'reset' ? RESET_TTL_SECONDS : VERIFY_TTL_SECONDS
+  );
+  const path = kind === 'reset' ? '/auth/reset-password' : '/auth/verify-email';
+  logEmail(user.email, `${path}?token=${token}`);
+}
+
+// Each (re)send replaces the invite's token, so older links stop working
+function issueInviteLink(invite: MockInvite): string {
+  const now = Math.floor(Date.now() / 1000);
+  invite.tokenId = nextId('token-');
+  invite.expiresAt = new Date((now + INVITE_TTL_SECONDS) * 1000).toISOString();
+  const token = signToken({
+    sub: invite._id,
+    role: invite.role,
+    kind: 'invite',
+    jti: invite.tokenId,
+    email: invite.email,
+    iat: now,
+    exp: now + INVITE_TTL_SECONDS,
+  });
+  const inviteUrl = `/auth/invite?token=${token}`;
+  logEmail(invite.email, inviteUrl);
+  return inviteUrl;
+}
+
+function toPublicInvite(invite: MockInvite): Invite {
+  const { tokenId: _tokenId, ...publicInvite } = invite;
+  const expired =
+    invite.status === 'pending' && new Date(invite.expiresAt) < new Date();
+  return expired ? { ...publicInvite, status: 'expired' } : publicInvite;
+}
+
+// Mock tokens aren't signed, so anyone can edit one: the token only names
+// the invite (sub) and which of its links this is (jti). The email, role
+// and expiry always come from the stored invite.
+function readInviteToken(token: string): { invite: MockInvite; jti: string } {
+  const payload = parseToken(token);
+  const invite =
+    payload?.kind === 'invite' &&
+    db.invites.find((item) => item._id === payload.sub);
+  if (!payload || !invite) {
+    throw new HttpError(400, 'This invite link is invalid');
+  }
+  if (
+    db.revokedTokens.includes(payload.jti) ||
+    invite.status !== 'pending' ||
+    invite.tokenId !== payload.jti
+  ) {
+    throw new HttpError(
+      400,
+      'This invite link has been revoked or already used'
+    );
+  }
+  if (new Date(invite.expiresAt) < new Date()) {
+    throw new HttpError(410, 'This invite link has expired');
+  }
+  return { invite, jti: payload.jti };
+}
+
+function findInvite(id: string): MockInvite {
+  const invite = db.invites.find((item) => item._id === id);
+  if (!invite) throw new HttpError(404, 'Invite not found');
+  return invite;
+}
+
+// Sessions are labelled from the User-Agent the BFF forwards
+function describeDevice(agent: string): string {
+  const browser = /Edg\//.test(agent)
+    ? 'Edge'
+    : /Chrome\//.test(agent)
+    ? 'Chrome'
+    : /Firefox\//.test(agent)
+    ? 'Firefox'
+    : /Safari\//.test(agent)
+    ? 'Safari'
+    : 'Unknown browser';
+  const os = /Windows/.test(agent)
+    ? 'Windows'
+    : /Android/.test(agent)
+    ? 'Android'
+    : /iPhone|iPad/.test(agent)
+    ? 'iOS'
+    : /Mac OS X/.test(agent)
+    ? 'macOS'
+    : /Linux/.test(agent)
+    ? 'Linux'
+    : 'unknown OS';
+  return `${browser} on ${os}`;
+}
+
+// Sessions are rebuilt from tokens after the store resets
+function touchSession(
+  payload: TokenPayload,
+  userAgent: string
+): MockSession | null {
+  if (!payload.sid) return null;
+  let session = db.sessions.find((item) => item.id === payload.sid);
+  if (!session) {
+    session = {
+      id: payload.sid,
+      userId: payload.sub,
+      device: describeDevice(userAgent),
+      createdAt: new Date(payload.iat * 1000).toISOString(),
+      lastActiveAt: '',
+    };
+    db.sessions.push(session);
+  }
+  session.lastActiveAt = new Date().toISOString();
+  return session;
+}
+
+function issueSession(user: MockUser, userAgent: string) {
+  const now = new Date().toISOString();
+  const session: MockSession = {
+    id: nextId('session-'),
+    userId: user.id,
+    device: describeDevice(userAgent),
+    createdAt: now,
+    lastActiveAt: now,
+  };
+  db.sessions.push(session);
+  return {
+    token: issueToken(user, 'access', TOKEN_TTL_SECONDS, session.id),
+    refreshToken: issueToken(user, 'refresh', REFRESH_TTL_SECONDS, session.id),
+    user: toPublicUser(user),
+  };
+}
+
+function endSession(sessionId: string) {
+  db.sessions = db.sessions.filter((item) => item.id !== sessionId);
+  db.revokedTokens.push(sessionId);
+}
+
+function authenticate(
+  token: string | null,
+  userAgent: string
+): { user: MockUser; sessionId: string | null } | null {
+  const payload = readToken(token, 'access');
+  const user = payload && db.users.find((item) => item.id === payload.sub);
+  if (!payload || !user) return null;
+  return { user, sessionId: touchSession(payload, userAgent)?.id ?? null };
+}
+
+function toPublicUser(user: MockUser): User {
+  const {
+    password: _password,
+    totpSecret: _totpSecret,
+    pendingTotpSecret: _pendingTotpSecret,
+    backupCodes: _backupCodes,
+    calendarFeed: _calendarFeed,
+    ...publicUser
+  } = user;
+  return publicUser;
+}
+
+function generateBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const bytes = new Uint8Array(4);
+    crypto.getRandomValues(bytes);
+    const hex = Array.from(bytes, (byte) =>
+      byte.toString(16).padStart(2, '0')
+    ).join('');
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+  });
+}
+
+function issueCalendarFeed(user: MockUser): CalendarFeed {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  user.calendarFeed = {
+    token: Buffer.from(bytes).toString('base64url'),
+    createdAt: new Date().toISOString(),
+  };
+  return user.calendarFeed;
+}
+
+// Backup codes are single use, so a match is removed from the account
+function checkSecondFactor(
+  user: MockUser,
+  code: string,
+  method: TwoFactorMethod
+): boolean {
+  if (method === 'totp') {
+    return Boolean(user.totpSecret && verifyTotp(user.totpSecret, code));
+  }
+  const normalized = code.trim().toLowerCase().replace(/[\s-]/g, '');
+  const index = user.backupCodes.findIndex(
+    (item) => item.replace(/-/g, '') === normalized
+  );
+  if (index === -1) return false;
+  user.backupCodes.splice(index, 1);
+  return true;
+}
+
+// Without an authenticator app offline, the expected code is logged instead
+function logTotpCode(user: MockUser) {
+  if (!user.totpSecret) return;
+  const code = generateTotp(user.totpSecret);
+  console.info(`[mock api] Authenticator code for ${user.email}: ${code}`);
+}
+
+// Spots offered to the waitlist are held back until claimed or expired
+function withAvailability(event: Event): Event {
+  const taken = event.currentParticipants + heldSpots(event._id);
+  return {
+    ...event,
+    isFull: taken >= event.maxParticipants,
+    availableSpots: Math.max(event.maxParticipants - taken, 0),
+  };
+}
+
+function isRegistrationOpen(event: Event): boolean {
+  return (
+    event.status === 'active' &&
+    new Date(event.registrationDeadline) >= new Date()
+  );
+}
+
+function heldSpots(eventId: string): number {
+  return db.waitlist.filter(
+    (entry) => entry.event === eventId && entry.status === 'offered'
+  ).length;
+}
+
+function waitingQueue(eventId: string): MockWaitlistEntry[] {
+  return db.waitlist.filter(
+    (entry) => entry.event === eventId && entry.status === 'waiting'
+  );
+}
+
+// Members can rejoin after leaving, so the newest entry is the current one
+function latestWaitlistEntry(
+  eventId: string,
+  userId: string
+): MockWaitlistEntry | undefined {
+  return [...db.waitlist]
+    .reverse()
+    .find((entry) => entry.event === eventId && entry.user === userId);
+}
+
+function isOnWaitlist(entry: MockWaitlistEntry | undefined) {
+  return entry?.status === 'waiting' || entry?.status === 'offered';
+}
+
+function offerSpot(entry: MockWaitlistEntry) {
+  const now = Date.now();
+  entry.status = 'offered';
+  entry.offeredAt = new Date(now).toISOString();
+  entry.offerExpiresAt = new Date(
+    now + WAITLIST_CLAIM_SECONDS * 1000
+  ).toISOString();
+  entry.updatedAt = entry.offeredAt;
+  const user = db.users.find((item) => item.id === entry.user);
+  if (user) logEmail(user.email, `/events/${entry.event}/register`);
+}
+
+// Nothing runs in the background offline, so lapsed offers are expired and
+// free spots passed down the queue whenever a request comes in
+function sweepWaitlist(event: Event) {
+  const now = new Date().toISOString();
+  db.waitlist
+    .filter(
+      (entry) =>
+        entry.event === event._id &&
+        entry.status === 'offered' &&
+        entry.offerExpiresAt! <= now
+    )
+    .forEach((entry) => {
+      entry.status = 'expired';
+      entry.updatedAt = now;
+    });
+  if (!isRegistrationOpen(event)) return;
+  waitingQueue(event._id)
+    .slice(0, withAvailability(event).availableSpots)
+    .forEach(offerSpot);
+}
+
+function toWaitlistEntry(entry: MockWaitlistEntry): WaitlistEntry {
+  const { event, user: _user, ...publicEntry } = entry;
+  const index = waitingQueue(event).indexOf(entry);
+  return {
+    ...publicEntry,
+    eventId: event,
+    position: index === -1 ? null : index + 1,
+  };
+}
+
+function toAdminWaitlistEntry(entry: MockWaitlistEntry): AdminWaitlistEntry {
+  const user = db.users.find((item) => item.id === entry.user);
+  if (!user) {
+    throw new HttpError(500, 'Waitlist entry references missing records');
+  }
+  return {
+    ...toWaitlistEntry(entry),
+    user: { id: user.id, name: user.name, email: user.email },
+  };
+}
+
+function waitlistState(eventId: string, userId: string) {
+  const entry = latestWaitlistEntry(eventId, userId);
+  return {
+    entry: entry ? toWaitlistEntry(entry) : null,
+    waiting: waitingQueue(eventId).length,
+  };
+}
+
+function findWaitlistEntry(id: string): MockWaitlistEntry {
+  const entry = db.waitlist.find((item) => item._id === id);
+  if (!entry) throw new HttpError(404, 'Waitlist entry not found');
+  return entry;
+}
+
+function populateRegistration(registration: MockRegistration): Registration {
+  const event = db.events.find((item) => item._id === registration.event);
+  const user = db.users.find((item) => item.id === registration.user);
+  if (!event || !user) {
+    throw new HttpError(500, 'Registration references missing records');
+  }
+  return {
+    ...registration,
+    event: { _id: event._id, title: event.title, date: event.date },
+    user: { _id: user.id, name: user.name, email: user.email },
+  };
+}
+
+function paginate<T>(items: T[], query: Record<string, string>) {
+  const limit = Math.max(Number(query.limit) || 10, 1);
+  const total = items.length;
+  const totalPages = Math.max(Math.ceil(total / limit), 1);
+  const currentPage = Math.min(Math.max(Number(query.page) || 1, 1), totalPages);
+  const start = (currentPage - 1) * limit;
+  return {
+    items: items.slice(start, start + limit),
+    pagination: {
+      currentPage,
+      totalPages,
+      total,
+      hasNext: currentPage < totalPages,
+      hasPrev: currentPage > 1,
+    },
+  };
+}
+
+function matchesSearch(search: string | undefined, ...fields: (string | undefined)[]) {
+  if (!search) return true;
+  const needle = search.toLowerCase();
+  return fields.some((field) => field?.toLowerCase().includes(needle));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RADIUS_KM = 100;
+
+// Query values that aren't numbers are ignored rather than rejected
+function numberParam(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Start of a YYYY-MM-DD day, in UTC
+function dayParam(value: string | undefined): number | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const time = new Date(`${value}T00:00:00Z`).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+function filterEvents(events: Event[], query: Record<string, string>): Event[] {
+  const minPrice = numberParam(query.minPrice);
+  const maxPrice = numberParam(query.maxPrice);
+  const from = dayParam(query.from);
+  const to = dayParam(query.to);
+  const tags = (query.tags || '')
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+  const near = parseCoordinates(query.near);
+  const radius = numberParam(query.radius) ?? DEFAULT_RADIUS_KM;
+
+  return events
+    .filter((event) => !query.status || event.status === query.status)
+    .filter((event) => !query.difficulty || event.difficulty === query.difficulty)
+    .filter((event) =>
+      matchesSearch(
+        query.search,
+        event.title,
+        event.shortDescription,
+        event.description,
+        event.location.address,
+        ...event.tags
+      )
+    )
+    .filter((event) => minPrice === null || event.price >= minPrice)
+    .filter((event) => maxPrice === null || event.price <= maxPrice)
+    .filter((event) => {
+      const time = new Date(event.date).getTime();
+      return (
+        (from === null || time >= from) && (to === null || time < to + DAY_MS)
+      );
+    })
+    .filter(
+      (event) =>
+        tags.length === 0 ||
+        event.tags.some((tag) => tags.includes(tag.toLowerCase()))
+    )
+    .filter((event) => {
+      if (!near) return true;
+      const coordinates = event.location.coordinates;
+      return Boolean(coordinates) && distanceKm(near, coordinates!) <= radius;
+    })
+    .map(withAvailability)
+    .filter((event) => query.available !== 'true' || !event.isFull);
+}
+
+const eventSorts: Record<string, (a: Event, b: Event) => number> = {
+  date: (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
+  price: (a, b) => a.price - b.price,
+  spots: (a, b) => b.availableSpots - a.availableSpots,
+};
+
+// Ties fall back to the soonest event first
+function sortEvents(events: Event[], sort: string | undefined): Event[] {
+  const compare = eventSorts[sort || 'date'] || eventSorts.date;
+  return [...events].sort((a, b) => compare(a, b) || eventSorts.date(a, b));
+}
+
+function findEvent(id: string): Event {
+  const event = db.events.find((item) => item._id === id);
+  if (!event) throw new HttpError(404, 'Event not found');
+  return event;
+}
+
+function requireFields(body: Record<string, unknown>, fields: string[]) {
+  const missing = fields.filter((field) => !body[field]);
+  if (missing.length > 0) {
+    throw new HttpError(400, `Missing required fields: ${missing.join(', ')}`);
+  }
+}
+
+// Multipart fields arrive as strings; objects and arrays were JSON encoded
+function parseField<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string') return (value as T) ?? fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return value as unknown as T;
+  }
+}
+
+function fileUrl(file: MockFile, label: string): string {
+  return file.dataUrl || placeholderImage(label, '#6b7280');
+}
+
+const routes: Route[] = [];
+
+function route(
+  method: string,
+  path: string,
+  access: Route['access'],
+  handler: Handler
+) {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    `^${path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    })}/?$`
+  );
+  routes.push({ method, pattern, keys, access, handler });
+}
+
+// Auth
+
+route('POST', '/auth/login', 'public', ({ body, userAgent }) => {
+  const user = db.users.find(
+    (item) => item.email.toLowerCase() === String(body.email).toLowerCase()
+  );
+  if (!user || user.password !== body.password) {
+    throw new HttpError(401, 'Invalid email or password');
+  }
+  if (user.twoFactorEnabled) {
+    const token = issueToken(user, 'two-factor', TWO_FACTOR_TTL_SECONDS);
+    logTotpCode(user);
+    return ok({
+      challengeToken: token,
+      expiresAt: new Date(parseToken(token)!.exp * 1000).toISOString(),
+    });
+  }
+  return ok(issueSession(user, userAgent));
+});
+
+route('POST', '/auth/login/2fa', 'public', ({ body, userAgent }) => {
+  requireFields(body, ['challengeToken', 'code']);
+  const payload = readToken(String(body.challengeToken), 'two-factor');
+  const user = payload && db.users.find((item) => item.id === payload.sub);
+  if (!payload || !user) {
+    throw new HttpError(
+      401,
+      'Your sign-in attempt expired, please start again'
+    );
+  }
+  const method: TwoFactorMethod = body.method === 'backup' ? 'backup' : 'totp';
+  if (!checkSecondFactor(user, String(body.code), method)) {
+    const attempts = (db.twoFactorAttempts[payload.jti] || 0) + 1;
+    db.twoFactorAttempts[payload.jti] = attempts;
+    if (attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+      db.revokedTokens.push(payload.jti);
+      throw new HttpError(
+        401,
+        'Too many incorrect codes, please sign in again'
+      );
+    }
+    throw new HttpError(
+      400,
+      method === 'backup'
+        ? 'Invalid backup code'
+        : 'Invalid authentication code'
+    );
+  }
+  db.revokedTokens.push(payload.jti);
+  delete db.twoFactorAttempts[payload.jti];
+  return ok(issueSession(user, userAgent));
+});
+
+route('POST', '/auth/register', 'public', ({ body, userAgent }) => {
+  requireFields(body, ['name', 'email', 'phone', 'password']);
+  const email = String(body.email).toLowerCase();
+  if (db.users.some((item) => item.email.toLowerCase() === email)) {
+    throw new HttpError(400, 'An account with this email already exists');
+  }
+  const user: MockUser = {
+    id: nextId('user-'),
+    name: String(body.name),
+    email,
+    phone: String(body.phone),
+    // Staff roles are only granted through invites
+    role: 'user',
+    emailVerified: false,
+    twoFactorEnabled: false,
+    createdAt: new Date().toISOString(),
+    password: String(body.password),
+    backupCodes: [],
+  };
+  db.users.push(user);
+  sendEmailLink(user, 'verify');
+  return ok(issueSession(user, userAgent), 201);
+});
+
+// Refresh tokens are single use: each refresh rotates to a new one
+route('POST', '/auth/refresh', 'public', ({ body, userAgent }) => {
+  const payload = readToken(String(body.refreshToken || ''), 'refresh');
+  const user = payload && db.users.find((item) => item.id === payload.sub);
+  if (!payload || !user) {
+    throw new HttpError(401, 'Session expired, please sign in again');
+  }
+  db.revokedTokens.push(payload.jti);
+  touchSession(payload, userAgent);
+  return ok({
+    token: issueToken(user, 'access', TOKEN_TTL_SECONDS, payload.sid),
+    refreshToken: issueToken(user, 'refresh', REFRESH_TTL_SECONDS, payload.sid),
+  });
+});
+
+// Ends the session behind a refresh token; unknown tokens are ignored so
+// signing out always succeeds
+route('POST', '/auth/logout', 'public', ({ body }) => {
+  const payload = readToken(String(body.refreshToken || ''), 'refresh');
+  if (payload?.sid) endSession(payload.sid);
+  return ok({ message: 'Signed out' });
+});
+
+// Unknown addresses get the same response to avoid leaking accounts
+route('POST', '/auth/forgot-password', 'public', ({ body }) => {
+  requireFields(body, ['email']);
+  const email = String(body.email).toLowerCase();
+  limitEmailRequests('reset', email);
+  const user = db.users.find((item) => item.email.toLowerCase() === email);
+  if (user) sendEmailLink(user, 'reset');
+  return ok({
+    message: 'If an account exists for this email, a reset link has been sent',
+  });
+});
+
+route('GET', '/auth/reset-password/:token', 'public', ({ params }) => {
+  readEmailToken(params.token, 'reset');
+  return ok({ valid: true });
+});
+
+route('POST', '/auth/reset-password', 'public', ({ body }) => {
+  requireFields(body, ['token', 'password']);
+  const { payload, user } = readEmailToken(String(body.token), 'reset');
+  if (String(body.password).length < 6) {
+    throw new HttpError(400, 'Password must be at least 6 characters');
+  }
+  user.password = String(body.password);
+  db.revokedTokens.push(payload.jti);
+  // Whoever had the old password gets signed out everywhere
+  db.sessions
+    .filter((item) => item.userId === user.id)
+    .forEach((item) => endSession(item.id));
+  return ok({ message: 'Password updated successfully' });
+});
+
+route('POST', '/auth/verify-email', 'public', ({ body }) => {
+  requireFields(body, ['token']);
+  const { payload, user } = readEmailToken(String(body.token), 'verify');
+  user.emailVerified = true;
+  db.revokedTokens.push(payload.jti);
+  return ok({ message: 'Email verified successfully', user: toPublicUser(user) });
+});
+
+route('POST', '/auth/resend-verification', 'user', ({ user }) => {
+  if (user!.emailVerified) {
+    throw new HttpError(400, 'Your email is already verified');
+  }
+  limitEmailRequests('verify', user!.email);
+  sendEmailLink(user!, 'verify');
+  return ok({ message: 'Verification email sent' });
+});
+
+route('GET', '/auth/invites/:token', 'public', ({ params }) => {
+  const { invite } = readInviteToken(params.token);
+  return ok({
+    email: invite.email,
+    name: invite.name,
+    role: invite.role,
+    expiresAt: invite.expiresAt,
+  });
+});
+
+route('POST', '/auth/invites/accept', 'public', ({ body, userAgent }) => {
+  requireFields(body, ['token', 'name', 'phone', 'password']);
+  const { invite, jti } = readInviteToken(String(body.token));
+  const email = invite.email.toLowerCase();
+  if (db.users.some((item) => item.email.toLowerCase() === email)) {
+    throw new HttpError(400, 'An account with this email already exists');
+  }
+  if (String(body.password).length < 6) {
+    throw new HttpError(400, 'Password must be at least 6 characters');
+  }
+  const now = new Date().toISOString();
+  const user: MockUser = {
+    id: nextId('user-'),
+    name: String(body.name),
+    email,
+    phone: String(body.phone),
+    role: invite.role,
+    // The invite link reached this inbox, which proves the address
+    emailVerified: true,
+    twoFactorEnabled: false,
+    createdAt: now,
+    password: String(body.password),
+    backupCodes: [],
+  };
+  db.users.push(user);
+  db.revokedTokens.push(jti);
+  Object.assign(invite, {
+    status: 'accepted',
+    acceptedAt: now,
+    updatedAt: now,
+  });
+  return ok(issueSession(user, userAgent), 201);
+});
+
+// Account
+
+route('GET', '/account', 'user', ({ user }) => ok({ user: toPublicUser(user!) }));
+
+route('PATCH', '/account', 'user', ({ body, user }) => {
+  requireFields(body, ['name', 'phone']);
+  user!.name = String(body.name).trim();
+  user!.phone = String(body.phone).trim();
+  return ok({ message: 'Profile updated successfully', user: toPublicUser(user!) });
+});
+
+route('POST', '/account/avatar', 'user', ({ files, user }) => {
+  const avatar = files.avatar?.[0];
+  if (!avatar) throw new HttpError(400, 'An image file is required');
+  if (!avatar.type.startsWith('image/')) {
+    throw new HttpError(400, 'Avatar must be an image');
+  }
+  user!.profileImage = fileUrl(avatar, user!.name);
+  return ok({ message: 'Avatar updated successfully', user: toPublicUser(user!) });
+});
+
+// Other devices are signed out; the session changing the password stays
+route('POST', '/account/password', 'user', ({ body, user, sessionId }) => {
+  requireFields(body, ['currentPassword', 'newPassword']);
+  if (user!.password !== body.currentPassword) {
+    throw new HttpError(400, 'Current password is incorrect');
+  }
+  if (String(body.newPassword).length < 6) {
+    throw new HttpError(400, 'Password must be at least 6 characters');
+  }
+  user!.password = String(body.newPassword);
+  db.sessions
+    .filter((item) => item.userId === user!.id && item.id !== sessionId)
+    .forEach((item) => endSession(item.id));
+  return ok({ message: 'Password changed successfully' });
+});
+
+route('GET', '/account/2fa', 'user', ({ user }) =>
+  ok({
+    enabled: user!.twoFactorEnabled,
+    required: requiresTwoFactor(user),
+    backupCodesRemaining: user!.backupCodes.length,
+  })
+);
+
+// The secret only takes effect once a code from it has been confirmed
+route('POST', '/account/2fa/setup', 'user', ({ user }) => {
+  if (user!.twoFactorEnabled) {
+    throw new HttpError(400, 'Two-factor authentication is already enabled');
+  }
+  const secret = generateSecret();
+  user!.pendingTotpSecret = secret;
+  return ok({
+    secret,
+    otpauthUrl: otpauthUrl(secret, user!.email, TOTP_ISSUER),
+  });
+});
+
+route('POST', '/account/2fa/enable', 'user', ({ body, user }) => {
+  requireFields(body, ['code']);
+  const secret = user!.pendingTotpSecret;
+  if (!secret) {
+    throw new HttpError(400, 'Start two-factor setup first');
+  }
+  if (!verifyTotp(secret, String(body.code))) {
+    throw new HttpError(400, 'Invalid authentication code');
+  }
+  user!.totpSecret = secret;
+  user!.pendingTotpSecret = undefined;
+  user!.twoFactorEnabled = true;
+  user!.backupCodes = generateBackupCodes();
+  return ok({ user: toPublicUser(user!), backupCodes: user!.backupCodes });
+});
+
+route('POST', '/account/2fa/disable', 'user', ({ body, user }) => {
+  requireFields(body, ['password', 'code']);
+  if (requiresTwoFactor(user)) {
+    throw new HttpError(
+      400,
+      'Your role requires two-factor authentication to stay enabled'
+    );
+  }
+  if (user!.password !== body.password) {
+    throw new HttpError(400, 'Password is incorrect');
+  }
+  const code = String(body.code);
+  if (
+    !checkSecondFactor(user!, code, 'totp') &&
+    !checkSecondFactor(user!, code, 'backup')
+  ) {
+    throw new HttpError(400, 'Invalid authentication or backup code');
+  }
+  Object.assign(user!, {
+    twoFactorEnabled: false,
+    totpSecret: undefined,
+    backupCodes: [],
+  });
+  return ok({ user: toPublicUser(user!) });
+});
+
+// Replaces every unused code, so a leaked list stops working
+route('POST', '/account/2fa/backup-codes', 'user', ({ body, user }) => {
+  requireFields(body, ['code']);
+  if (!user!.twoFactorEnabled) {
+    throw new HttpError(400, 'Two-factor authentication is not enabled');
+  }
+  if (!checkSecondFactor(user!, String(body.code), 'totp')) {
+    throw new HttpError(400, 'Invalid authentication code');
+  }
+  user!.backupCodes = generateBackupCodes();
+  return ok({ backupCodes: user!.backupCodes });
+});
+
+// Personal calendar feed; the link is created the first time it's asked for
+route('GET', '/account/calendar', 'user', ({ user }) =>
+  ok({ feed: user!.calendarFeed ?? issueCalendarFeed(user!) })
+);
+
+route('POST', '/account/calendar/regenerate', 'user', ({ user }) =>
+  ok({
+    message: 'A new calendar link was created; the old one no longer works',
+    feed: issueCalendarFeed(user!),
+  })
+);
+
+route('GET', '/account/sessions', 'user', ({ user, sessionId }) => {
+  const sessions = db.sessions
+    .filter((item) => item.userId === user!.id)
+    .sort(
+      (a, b) =>
+        new Date(b.lastActiveAt).getTime() - new Date(a.lastActiveAt).getTime()
+    )
+    .map(({ userId: _userId, ...session }) => ({
+      ...session,
+      current: session.id === sessionId,
+    }));
+  return ok({ sessions });
+});
+
+route('DELETE', '/account/sessions', 'user', ({ user, sessionId }) => {
+  db.sessions
+    .filter((item) => item.userId === user!.id && item.id !== sessionId)
+    .forEach((item) => endSession(item.id));
+  return ok({ message: 'Signed out of all other sessions' });
+});
+
+route('DELETE', '/account/sessions/:id', 'user', ({ params, user, sessionId }) => {
+  const session = db.sessions.find(
+    (item) => item.id === params.id && item.userId === user!.id
+  );
+  if (!session) throw new HttpError(404, 'Session not found');
+  if (session.id === sessionId) {
+    throw new HttpError(400, 'Use sign out to end the current session');
+  }
+  endSession(session.id);
+  return ok({ message: 'Session signed out' });
+});
+
+// Events
+
+route('GET', '/events', 'public', ({ query }) => {
+  const active = db.events.filter((event) => event.status === 'active');
+  const { items, pagination } = paginate(
+    sortEvents(filterEvents(active, { ...query, status: '' }), query.sort),
+    query
+  );
+  return ok({ events: items, pagination });
+});
+
+// Every tag used by an active event, for the tag filter
+route('GET', '/events/tags', 'public', () => {
+  const tags = new Set(
+    db.events
+      .filter((event) => event.status === 'active')
+      .flatMap((event) => event.tags)
+  );
+  return ok({ tags: [...tags].sort() });
+});
+
+route('GET', '/events/:id', 'public', ({ params }) => {
+  const event = findEvent(params.id);
+  if (event.status === 'draft') throw new HttpError(404, 'Event not found');
+  return ok(withAvailability(event));
+});
+
+// Waitlist
+
+route('GET', '/events/:id/waitlist', 'user', ({ params, user }) => {
+  const event = findEvent(params.id);
+  if (event.status === 'draft') throw new HttpError(404, 'Event not found');
+  return ok(waitlistState(event._id, user!.id));
+});
+
+route('POST', '/events/:id/waitlist', 'user', ({ params, user }) => {
+  if (!user!.emailVerified) {
+    throw new HttpError(
+      403,
+      'Please verify your email address before joining a waitlist'
+    );
+  }
+  const event = findEvent(params.id);
+  if (!isRegistrationOpen(event)) {
+    throw new HttpError(400, 'Registration is not open for this event');
+  }
+  if (
+    db.registrations.some(
+      (item) =>
+        item.event === event._id &&
+        item.user === user!.id &&
+        item.registrationStatus !== 'cancelled'
+    )
+  ) {
+    throw new HttpError(400, 'You are already registered for this event');
+  }
+  if (isOnWaitlist(latestWaitlistEntry(event._id, user!.id))) {
+    throw new HttpError(400, 'You are already on the waitlist for this event');
+  }
+  if (!withAvailability(event).isFull) {
+    throw new HttpError(400, 'This event still has spots; register instead');
+  }
+
+  const now = new Date().toISOString();
+  db.waitlist.push({
+    _id: nextId('waitlist-'),
+    event: event._id,
+    user: user!.id,
+    status: 'waiting',
+    createdAt: now,
+    updatedAt: now,
+  });
+  return ok(
+    {
+      message: 'You joined the waitlist',
+      ...waitlistState(event._id, user!.id),
+    },
+    201
+  );
+});
+
+// Leaving while holding an offer passes the spot to the next in line
+route('DELETE', '/events/:id/waitlist', 'user', ({ params, user }) => {
+  const event = findEvent(params.id);
+  const entry = latestWaitlistEntry(event._id, user!.id);
+  if (!entry || !isOnWaitlist(entry)) {
+    throw new HttpError(404, 'You are not on the waitlist for this event');
+  }
+  entry.status = 'left';
+  entry.updatedAt = new Date().toISOString();
+  sweepWaitlist(event);
+  return ok({
+    message: 'You left the waitlist',
+    ...waitlistState(event._id, user!.id),
+  });
+});
+
+// The token is the only credential, so this answers without a session and
+// leaves participant details out
+route('GET', '/calendar/:token', 'public', ({ params }) => {
+  const user = db.users.find(
+    (item) => item.calendarFeed && item.calendarFeed.token === params.token
+  );
+  if (!user) throw new HttpError(404, 'Calendar not found');
+  const entries = db.registrations
+    .filter(
+      (item) =>
+        item.user === user.id && item.registrationStatus !== 'cancelled'
+    )
+    .map((registration) => ({
+      registration,
+      event: db.events.find((item) => item._id === registration.event),
+    }))
+    .filter(({ event }) => event && event.status !== 'draft')
+    .map(({ registration, event }) => ({
+      registrationId: registration._id,
+      registrationStatus: registration.registrationStatus,
+      updatedAt: registration.updatedAt,
+      event: withAvailability(event!),
+    }));
+  return ok({ owner: user.name, entries });
+});
+
+// Registrations
+
+// The signed-in member's own registrations, newest first
+route('GET', '/registrations', 'user', ({ user }) => {
+  const registrations = db.registrations
+    .filter((item) => item.user === user!.id)
+    .sort(
+      (a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )
+    .map(populateRegistration);
+  return ok({ registrations });
+});
+
+route('POST', '/registrations', 'user', ({ body, user }) => {
+  if (!user!.emailVerified) {
+    throw new HttpError(
+      403,
+      'Please verify your email address before registering for events'
+    );
+  }
+  requireFields(body, ['eventId', 'participantDetails']);
+  const event = findEvent(String(body.eventId));
+  if (event.status !== 'active') {
+    throw new HttpError(400, 'Registration is not open for this event');
+  }
+  // A waitlist offer holds a spot, so it outlasts the deadline and capacity
+  const entry = latestWaitlistEntry(event._id, user!.id);
+  const offer = entry?.status === 'offered' ? entry : null;
+  if (!offer && new Date(event.registrationDeadline) < new Date()) {
+    throw new HttpError(400, 'Registration deadline has passed');
+  }
+  if (!offer && withAvailability(event).isFull) {
+    throw new HttpError(
+      400,
+      'This event is fully booked; join the waitlist to be offered a spot'
+    );
+  }
+  if (
+    db.registrations.some(
+      (item) =>
+        item.event === event._id &&
+        item.user === user!.id &&
+        item.registrationStatus !== 'cancelled'
+    )
+  ) {
+    throw new HttpError(400, 'You are already registered for this event');
+  }
+
+  const now = new Date().toISOString();
+  const registration: MockRegistration = {
+    _id: nextId('registration-'),
+    event: event._id,
+    user: user!.id,
+    participantDetails:
+      body.participantDetails as Registration['participantDetails'],
+    registrationStatus: 'pending',
+    paymentStatus: 'pending',
+    registrationDate: now,
+    paymentAmount: event.price,
+    waiverSigned: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.registrations.push(registration);
+  event.currentParticipants += 1;
+  if (entry && isOnWaitlist(entry)) {
+    entry.status = 'claimed';
+    entry.updatedAt = now;
+  }
+
+  return ok(
+    {
+      message: 'Registration submitted successfully',
+      registration: populateRegistration(registration),
+    },
+    201
+  );
+});
+
+// Gallery
+
+route('GET', '/gallery', 'public', ({ query }) => {
+  const images = db.gallery
+    .filter((image) => image.isActive)
+    .filter((image) => !query.category || image.category === query.category)
+    .filter((image) => !query.featured || String(image.featured) === query.featured)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const { items, pagination } = paginate(images, { limit: '20', ...query });
+  return ok({ images: items, pagination });
+});
+
+route(
+  'POST',
+  '/gallery',
+  { action: 'create', resource: 'gallery' },
+  ({ body, files, user }) => {
+    const image = files.image?.[0];
+    if (!image) throw new HttpError(400, 'An image file is required');
+    requireFields(body, ['title', 'altText']);
+
+    const eventId = body.eventId ? String(body.eventId) : undefined;
+    const event = eventId ? findEvent(eventId) : undefined;
+    const now = new Date().toISOString();
+    const galleryImage: GalleryImage = {
+      _id: nextId('image-'),
+      title: String(body.title),
+      description: body.description ? String(body.description) : undefined,
+      imageUrl: fileUrl(image, String(body.title)),
+      altText: String(body.altText),
+      category: (body.category as GalleryImage['category']) || 'Other',
+      tags: parseField<string[]>(body['tags[]'] ?? body.tags, []),
+      event: event
+        ? { _id: event._id, title: event.title, date: event.date }
+        : undefined,
+      uploadedBy: { _id: user!.id, name: user!.name },
+      isActive: true,
+      views: 0,
+      likes: 0,
+      featured: String(body.featured) === 'true',
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.gallery.push(galleryImage);
+    return ok({ message: 'Image uploaded successfully', image: galleryImage }, 201);
+  }
+);
+
+route('POST', '/gallery/:id/like', 'public', ({ params }) => {
+  const image = db.gallery.find((item) => item._id === params.id);
+  if (!image) throw new HttpError(404, 'Image not found');
+  image.likes += 1;
+  return ok({ likes: image.likes });
+});
+
+// Contact
+
+route('POST', '/contact', 'public', ({ body }) => {
+  requireFields(body, ['name', 'email', 'subject', 'message']);
+  const now = new Date().toISOString();
+  db.contacts.push({
+    _id: nextId('contact-'),
+    name: String(body.name),
+    email: String(body.email),
+    phone: body.phone ? String(body.phone) : undefined,
+    subject: String(body.subject),
+    message: String(body.message),
+    status: 'new',
+    priority: 'medium',
+    whatsappSent: false,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return ok({ message: 'Message sent successfully' }, 201);
+});
+
+// Admin
+
+route(
+  'GET',
+  '/admin/dashboard-stats',
+  { action: 'view', resource: 'dashboard' },
+  ({ user }) => {
+    const byNewest = <T extends { createdAt: string }>(a: T, b: T) =>
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+    // Recent activity only lists what the caller's role may open
+    return ok({
+      totalEvents: db.events.length,
+      totalRegistrations: db.registrations.length,
+      totalUsers: db.users.length,
+      totalGalleryImages: db.gallery.length,
+      recentRegistrations: can(user, 'view', 'registrations')
+        ? [...db.registrations]
+            .sort(byNewest)
+            .slice(0, 5)
+            .map(populateRegistration)
+        : [],
+      recentContacts: can(user, 'view', 'contacts')
+        ? [...db.contacts].sort(byNewest).slice(0, 5)
+        : [],
+    });
+  }
+);
+
+route(
+  'GET',
+  '/admin/events',
+  { action: 'view', resource: 'events' },
+  ({ query }) => {
+    const events = filterEvents(db.events, query).sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+    const { items, pagination } = paginate(events, { limit: '50', ...query });
+    return ok({ events: items, pagination });
+  }
+);
+
+route(
+  'POST',
+  '/admin/events',
+  { action: 'create', resource: 'events' },
+  ({ body, files, user }) => {
+    requireFields(body, ['title', 'description', 'date', 'registrationDeadline']);
+    const now = new Date().toISOString();
+    const primaryIndex = Number(body.primaryImage) || 0;
+    const title = String(body.title);
+    const event: Event = {
+      _id: nextId('event-'),
+      title,
+      description: String(body.description),
+      shortDescription: String(body.shortDescription || ''),
+      date: new Date(String(body.date)).toISOString(),
+      location: parseField<Event['location']>(body.location, { address: '' }),
+      price: Number(body.price) || 0,
+      maxParticipants: Number(body.maxParticipants) || 1,
+      currentParticipants: 0,
+      difficulty: (body.difficulty as Event['difficulty']) || 'Beginner',
+      duration: String(body.duration || ''),
+      images: (files.images || []).map((file, index) => ({
+        url: fileUrl(file, title),
+        alt: title,
+        isPrimary: index === primaryIndex,
+      })),
+      equipment: parseField<string[]>(body.equipment, []),
+      requirements: parseField<string[]>(body.requirements, []),
+      includes: parseField<string[]>(body.includes, []),
+      status: (body.status as Event['status']) || 'draft',
+      registrationDeadline: new Date(String(body.registrationDeadline)).toISOString(),
+      createdBy: { _id: user!.id, name: user!.name, email: user!.email },
+      tags: parseField<string[]>(body.tags, []),
+      createdAt: now,
+      updatedAt: now,
+      isFull: false,
+      availableSpots: Number(body.maxParticipants) || 1,
+    };
+    db.events.push(event);
+    return ok({ message: 'Event created successfully', event }, 201);
+  }
+);
+
+route(
+  'PATCH',
+  '/admin/events/:id',
+  { action: 'update', resource: 'events' },
+  ({ params, body }) => {
+    const event = findEvent(params.id);
+    Object.assign(event, body, { updatedAt: new Date().toISOString() });
+    sweepWaitlist(event);
+    return ok({ message: 'Event updated successfully', event: withAvailability(event) });
+  }
+);
+
+route(
+  'DELETE',
+  '/admin/events/:id',
+  { action: 'delete', resource: 'events' },
+  ({ params }) => {
+    findEvent(params.id);
+    db.events = db.events.filter((event) => event._id !== params.id);
+    db.registrations = db.registrations.filter(
+      (registration) => registration.event !== params.id
+    );
+    db.waitlist = db.waitlist.filter((entry) => entry.event !== params.id);
+    return ok({ message: 'Event deleted successfully' });
+  }
+);
+
+route(
+  'GET',
+  '/admin/registrations',
+  { action: 'view', resource: 'registrations' },
+  ({ query }) => {
+    const registrations = db.registrations
+      .filter((item) => !query.status || item.registrationStatus === query.status)
+      .filter((item) => !query.event || item.event === query.event)
+      .filter((item) =>
+        matchesSearch(
+          query.search,
+          item.participantDetails.name,
+          item.participantDetails.email
+        )
+      )
+      .map(populateRegistration);
+    return ok({ registrations });
+  }
+);
+
+route(
+  'PATCH',
+  '/admin/registrations/:id',
+  { action: 'update', resource: 'registrations' },
+  ({ params, body }) => {
+    const registration = db.registrations.find((item) => item._id === params.id);
+    if (!registration) throw new HttpError(404, 'Registration not found');
+    const status = body.status as Registration['registrationStatus'];
+    const event = db.events.find((item) => item._id === registration.event);
+    if (event && status === 'cancelled' && registration.registrationStatus !== 'cancelled') {
+      event.currentParticipants = Math.max(event.currentParticipants - 1, 0);
+    }
+    if (event && status !== 'cancelled' && registration.registrationStatus === 'cancelled') {
+      event.currentParticipants += 1;
+    }
+    registration.registrationStatus = status;
+    registration.updatedAt = new Date().toISOString();
+    if (event) sweepWaitlist(event);
+    return ok({
+      message: 'Registration updated successfully',
+      registration: populateRegistration(registration),
+    });
+  }
+);
+
+route(
+  'GET',
+  '/admin/events/:id/waitlist',
+  { action: 'view', resource: 'registrations' },
+  ({ params }) => {
+    const event = findEvent(params.id);
+    return ok({
+      event: withAvailability(event),
+      entries: db.waitlist
+        .filter((entry) => entry.event === event._id)
+        .map(toAdminWaitlistEntry),
+    });
+  }
+);
+
+// Only the waiting entries move; they take the given order in the slots
+// they already occupy
+route(
+  'PUT',
+  '/admin/events/:id/waitlist/order',
+  { action: 'update', resource: 'registrations' },
+  ({ params, body }) => {
+    const event = findEvent(params.id);
+    const ids = Array.isArray(body.entryIds) ? body.entryIds.map(String) : [];
+    const queue = waitingQueue(event._id);
+    if (
+      ids.length !== queue.length ||
+      !queue.every((entry) => ids.includes(entry._id))
+    ) {
+      throw new HttpError(400, 'The order must list every waiting entry once');
+    }
+    const slots = queue.map((entry) => db.waitlist.indexOf(entry));
+    ids.forEach((id: string, index: number) => {
+      db.waitlist[slots[index]] = queue.find((entry) => entry._id === id)!;
+    });
+    return ok({ message: 'Waitlist reordered' });
+  }
+);
+
+// Offers a spot straight away, even if that takes the event over capacity
+route(
+  'POST',
+  '/admin/waitlist/:id/promote',
+  { action: 'update', resource: 'registrations' },
+  ({ params }) => {
+    const entry = findWaitlistEntry(params.id);
+    if (entry.status !== 'waiting' && entry.status !== 'expired') {
+      throw new HttpError(400, `This entry was already ${entry.status}`);
+    }
+    const event = findEvent(entry.event);
+    if (event.status !== 'active') {
+      throw new HttpError(400, 'Registration is not open for this event');
+    }
+    offerSpot(entry);
+    return ok({
+      message: 'Spot offered',
+      entry: toAdminWaitlistEntry(entry),
+    });
+  }
+);
+
+route(
+  'GET',
+  '/admin/contacts',
+  { action: 'view', resource: 'contacts' },
+  ({ query }) => {
+    const contacts = db.contacts
+      .filter((item) => !query.status || item.status === query.status)
+      .filter((item) => !query.priority || item.priority === query.priority)
+      .filter((item) =>
+        matchesSearch(query.search, item.name, item.email, item.subject)
+      );
+    return ok({ contacts });
+  }
+);
+
+route(
+  'PATCH',
+  '/admin/contacts/:id',
+  { action: 'update', resource: 'contacts' },
+  ({ params, body }) => {
+    const contact = db.contacts.find((item) => item._id === params.id);
+    if (!contact) throw new HttpError(404, 'Contact not found');
+    Object.assign(contact, body, { updatedAt: new Date().toISOString() });
+    if (body.status === 'resolved' && !contact.responseDate) {
+      contact.responseDate = contact.updatedAt;
+    }
+    return ok({ message: 'Contact updated successfully', contact });
+  }
+);
+
+route(
+  'GET',
+  '/admin/invites',
+  { action: 'view', resource: 'invites' },
+  ({ query }) => {
+    const invites = db.invites
+      .map(toPublicInvite)
+      .filter((item) => !query.status || item.status === query.status)
+      .sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+    return ok({ invites });
+  }
+);
+
+route(
+  'POST',
+  '/admin/invites',
+  { action: 'create', resource: 'invites' },
+  ({ body, user }) => {
+    requireFields(body, ['email', 'role']);
+    const email = String(body.email).trim().toLowerCase();
+    const role = body.role as StaffRole;
+    if (!STAFF_ROLES.includes(role)) {
+      throw new HttpError(400, 'Invites must grant a staff role');
+    }
+    if (db.users.some((item) => item.email.toLowerCase() === email)) {
+      throw new HttpError(400, 'An account with this email already exists');
+    }
+    if (
+      db.invites.some(
+        (item) =>
+          item.email === email && toPublicInvite(item).status === 'pending'
+      )
+    ) {
+      throw new HttpError(
+        400,
+        'A pending invite already exists for this email'
+      );
+    }
+    const now = new Date().toISOString();
+    const invite: MockInvite = {
+      _id: nextId('invite-'),
+      email,
+      name: body.name ? String(body.name) : undefined,
+      role,
+      status: 'pending',
+      invitedBy: { _id: user!.id, name: user!.name },
+      expiresAt: now,
+      createdAt: now,
+      updatedAt: now,
+      tokenId: '',
+    };
+    const inviteUrl = issueInviteLink(invite);
+    db.invites.push(invite);
+    return ok(
+      { message: 'Invite sent', invite: toPublicInvite(invite), inviteUrl },
+      201
+    );
+  }
+);
+
+route(
+  'POST',
+  '/admin/invites/:id/resend',
+  { action: 'update', resource: 'invites' },
+  ({ params }) => {
+    const invite = findInvite(params.id);
+    if (invite.status !== 'pending') {
+      throw new HttpError(400, `This invite was already ${invite.status}`);
+    }
+    db.revokedTokens.push(invite.tokenId);
+    const inviteUrl = issueInviteLink(invite);
+    invite.updatedAt = new Date().toISOString();
+    return ok({
+      message: 'Invite re-sent',
+      invite: toPublicInvite(invite),
+      inviteUrl,
+    });
+  }
+);
+
+route(
+  'POST',
+  '/admin/invites/:id/revoke',
+  { action: 'update', resource: 'invites' },
+  ({ params }) => {
+    const invite = findInvite(params.id);
+    if (invite.status !== 'pending') {
+      throw new HttpError(400, `This invite was already ${invite.status}`);
+    }
+    const now = new Date().toISOString();
+    db.revokedTokens.push(invite.tokenId);
+    Object.assign(invite, {
+      status: 'revoked',
+      revokedAt: now,
+      updatedAt: now,
+    });
+    return ok({ message: 'Invite revoked', invite: toPublicInvite(invite) });
+  }
+);
+
+export function handleRequest(request: MockRequest): MockResponse {
+  const candidates = routes.filter((item) => item.pattern.test(request.path));
+  if (candidates.length === 0) {
+    return ok({ message: `Route ${request.path} not found` }, 404);
+  }
+  const match = candidates.find((item) => item.method === request.method);
+  if (!match) {
+    return ok({ message: `Method ${request.method} not allowed` }, 405);
+  }
+
+  const auth = authenticate(request.token, request.userAgent);
+  const user = auth?.user ?? null;
+  if (match.access !== 'public' && !user) {
+    return ok({ message: 'Authentication required' }, 401);
+  }
+  if (
+    typeof match.access === 'object' &&
+    !can(user, match.access.action, match.access.resource)
+  ) {
+    return ok(
+      { message: 'You do not have permission to perform this action' },
+      403
+    );
+  }
+  if (typeof match.access === 'object' && needsTwoFactorSetup(user)) {
+    return ok(
+      { message: 'Enable two-factor authentication to use admin tools' },
+      403
+    );
+  }
+
+  const values = match.pattern.exec(request.path)!.slice(1);
+  const params = Object.fromEntries(
+    match.keys.map((key, index) => [key, decodeURIComponent(values[index])])
+  );
+
+  try {
+    db.events.forEach(sweepWaitlist);
+    return match.handler({
+      params,
+      query: request.query,
+      body: request.body,
+      files: request.files,
+      user,
+      sessionId: auth?.sessionId ?? null,
+      userAgent: request.userAgent,
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return ok({ message: error.message }, error.status);
+    }
+    console.error('Mock API handler failed:', error);
+    return ok({ message: 'Internal server error' }, 500);
+  }
+}
@@ -0,0 +1,76 @@
+import type { UpstreamRequest, UpstreamResponse } from '@/lib/bff/upstream';
+import { handleRequest, MockFile } from './server';
+
+const MOCK_LATENCY_MS = 150;
+
+async function toMockFile(file: File): Promise<MockFile> {
+  const base64 = Buffer.from(await file.arrayBuffer()).toString('base64');
+  const type = file.type || 'application/octet-stream';
+  return {
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    dataUrl: `data:${type};base64,${base64}`,
+  };
+}
+
+async function parseBody(request: UpstreamRequest) {
+  const body: Record<string, unknown> = {};
+  const files: Record<string, MockFile[]> = {};
+  if (!request.body) return { body, files };
+
+  const raw = new Response(request.body, {
+    headers: request.contentType ? { 'Content-Type': request.contentType } : {},
+  });
+
+  if (request.contentType?.startsWith('multipart/form-data')) {
+    const form = await raw.formData();
+    for (const [key, value] of form.entries()) {
+      if (typeof value === 'string') {
+        const existing = body[key];
+        if (key.endsWith('[]')) {
+          body[key] = [...((existing as string[]) || []), value];
+        } else {
+          body[key] = value;
+        }
+      } else {
+        files[key] = [...(files[key] || []), await toMockFile(value)];
+      }
+    }
+    return { body, files };
+  }
+
+  const text = await raw.text();
+  if (text.length > 0) {
+    return { body: JSON.parse(text) as Record<string, unknown>, files };
+  }
+  return { body, files };
+}
+
+// Stands in for the network when the BFF runs against the in-memory backend
+export async function mockUpstream(
+  request: UpstreamRequest
+): Promise<UpstreamResponse> {
+  await new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY_MS));
+
+  let parsed: Awaited<ReturnType<typeof parseBody>>;
+  try {
+    parsed = await parseBody(request);
+  } catch {
+    return { status: 400, data: { message: 'Malformed request body' } };
+  }
+
+  const { status, data } = handleRequest({
+    method: request.method,
+    // Paths are matched without a leading slash difference ("gallery/" vs "/gallery")
+    path: `/${request.path.replace(/^\/+/, '')}`,
+    query: Object.fromEntries(new URLSearchParams(request.search)),
+    body: parsed.body,
+    files: parsed.files,
+    token: request.token,
+    userAgent: request.userAgent,
+  });
+
+  // Round-trip through JSON so responses never share references with the store
+  return { status, data: JSON.parse(JSON.stringify(data)) };
+}
@@ -0,0 +1,158 @@
+import {
+  PermissionAction,
+  PermissionResource,
+  Role,
+  StaffRole,
+  User,
+} from '@/types';
+
+type PermissionMatrix = Partial<
+  Record<PermissionResource, readonly PermissionAction[]>
+>;
+
+const ALL: readonly PermissionAction[] = ['view', 'create', 'update', 'delete'];
+
+const rolePermissions: Record<Role, PermissionMatrix> = {
+  user: {},
+  admin: {
+    dashboard: ALL,
+    events: ALL,
+    registrations: ALL,
+    gallery: ALL,
+    contacts: ALL,
+    invites: ALL,
+  },
+  event_manager: {
+    dashboard: ['view'],
+    events: ALL,
+    registrations: ['view', 'update'],
+  },
+  media_manager: {
+    dashboard: ['view'],
+    gallery: ALL,
+  },
+  guide: {
+    dashboard: ['view'],
+    events: ['view'],
+    registrations: ['view'],
+  },
+  support_agent: {
+    dashboard: ['view'],
+    contacts: ['view', 'update'],
+    registrations: ['view'],
+  },
+};
+
+export const STAFF_ROLES: StaffRole[] = [
+  'admin',
+  'event_manager',
+  'media_manager',
+  'guide',
+  'support_agent',
+];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  user: 'Member',
+  admin: 'Administrator',
+  event_manager: 'Event Manager',
+  media_manager: 'Media Manager',
+  guide: 'Trail Guide',
+  support_agent: 'Support Agent',
+};
+
+export function can(
+  user: Pick<User, 'role'> | null | undefined,
+  action: PermissionAction,
+  resource: PermissionResource
+): boolean {
+  if (!user) return false;
+  const allowed = rolePermissions[user.role]?.[resource];
+  return Boolean(allowed?.includes(action));
+}
+
+export class PermissionError extends Error {
+  action: PermissionAction;
+  resource: PermissionResource;
+
+  constructor(action: PermissionAction, resource: PermissionResource) {
+    super(`You do not have permission to ${action} ${resource}`);
+    this.name = 'PermissionError';
+    this.action = action;
+    this.resource = resource;
+  }
+}
+
+// Any role that can open the admin area at all
+export function isStaff(user: Pick<User, 'role'> | null | undefined): boolean {
+  return can(user, 'view', 'dashboard');
+}
+
+// Roles that must have two-factor authentication before using the admin area
+const TWO_FACTOR_REQUIRED_ROLES: readonly Role[] = ['admin'];
+
+export function requiresTwoFactor(
+  user: Pick<User, 'role'> | null | undefined
+): boolean {
+  return Boolean(user && TWO_FACTOR_REQUIRED_ROLES.includes(user.role));
+}
+
+// Signed in with a role that requires 2FA but hasn't enrolled yet
+export function needsTwoFactorSetup(
+  user: Pick<User, 'role' | 'twoFactorEnabled'> | null | undefined
+): boolean {
+  return requiresTwoFactor(user) && !user?.twoFactorEnabled;
+}
+
+export interface AdminSection {
+  href: string;
+  label: string;
+  action: PermissionAction;
+  resource: PermissionResource;
+}
+
+export const ADMIN_SECTIONS: AdminSection[] = [
+  { href: '/admin', label: 'Dashboard', action: 'view', resource: 'dashboard' },
+  { href: '/admin/events', label: 'Events', action: 'view', resource: 'events' },
+  {
+    href: '/admin/registrations',
+    label: 'Registrations',
+    action: 'view',
+    resource: 'registrations',
+  },
+  { href: '/admin/contacts', label: 'Messages', action: 'view', resource: 'contacts' },
+  {
+    href: '/admin/gallery/upload',
+    label: 'Gallery',
+    action: 'create',
+    resource: 'gallery',
+  },
+  { href: '/admin/invites', label: 'Team', action: 'view', resource: 'invites' },
+];
+
+// Pages nested under a section that need more than view access
+const ADMIN_PAGE_PERMISSIONS: Omit<AdminSection, 'label'>[] = [
+  { href: '/admin/events/create', action: 'create', resource: 'events' },
+];
+
+export function adminPagePermission(
+  pathname: string
+): Omit<AdminSection, 'label'> | null {
+  const candidates = [...ADMIN_PAGE_PERMISSIONS, ...ADMIN_SECTIONS];
+  return (
+    candidates
+      .filter(
+        ({ href }) => pathname === href || pathname.startsWith(`${href}/`)
+      )
+      .sort((a, b) => b.href.length - a.href.length)[0] || null
+  );
+}
+
+export function canAccessAdminPage(
+  user: Pick<User, 'role'> | null | undefined,
+  pathname: string
+): boolean {
+  const permission = adminPagePermission(pathname);
+  return permission
+    ? can(user, permission.action, permission.resource)
+    : isStaff(user);
+}
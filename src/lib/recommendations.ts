@@ -0,0 +1,130 @@
+import { distanceKm } from './geo';
+import { Event, Registration } from '@/types';
+
+type Experience = Registration['participantDetails']['experience'];
+
+// What a signed-in member has done before, to lean the ranking their way
+export interface RiderHistory {
+  // Events they registered for and didn't cancel
+  events: Event[];
+  // As given on their most recent registration
+  experience?: Experience;
+}
+
+const DIFFICULTY_LEVELS: Event['difficulty'][] = [
+  'Beginner',
+  'Intermediate',
+  'Advanced',
+  'Expert',
+];
+
+// The difficulty each experience level is ready for
+const EXPERIENCE_DIFFICULTY: Record<Experience, Event['difficulty']> = {
+  Beginner: 'Beginner',
+  'Some Experience': 'Intermediate',
+  Experienced: 'Advanced',
+  Expert: 'Expert',
+};
+
+// Relative weight of each signal; every signal scores between 0 and 1
+const WEIGHTS = {
+  tags: 3,
+  difficulty: 2,
+  distance: 2,
+  date: 1,
+  history: 2,
+  experience: 2,
+};
+
+// Distance and date gaps at which those signals have fallen to half
+const HALF_SCORE_KM = 150;
+const HALF_SCORE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function difficultyLevel(event: Event) {
+  return DIFFICULTY_LEVELS.indexOf(event.difficulty);
+}
+
+// Share of the two tag sets that overlaps (Jaccard index)
+function tagSimilarity(a: string[], b: string[]) {
+  const union = new Set([...a, ...b]);
+  if (union.size === 0) return 0;
+  return a.filter((tag) => b.includes(tag)).length / union.size;
+}
+
+function levelSimilarity(a: number, b: number) {
+  return 1 - Math.abs(a - b) / (DIFFICULTY_LEVELS.length - 1);
+}
+
+function closeness(gap: number, halfScoreAt: number) {
+  return 1 / (1 + gap / halfScoreAt);
+}
+
+function scoreEvent(
+  event: Event,
+  source: Event,
+  history: RiderHistory | null
+): number {
+  const level = difficultyLevel(event);
+  const from = source.location.coordinates;
+  const to = event.location.coordinates;
+  const days =
+    Math.abs(new Date(event.date).getTime() - new Date(source.date).getTime()) /
+    DAY_MS;
+
+  let score =
+    WEIGHTS.tags * tagSimilarity(event.tags, source.tags) +
+    WEIGHTS.difficulty * levelSimilarity(level, difficultyLevel(source)) +
+    WEIGHTS.date * closeness(days, HALF_SCORE_DAYS);
+  if (from && to) {
+    score += WEIGHTS.distance * closeness(distanceKm(from, to), HALF_SCORE_KM);
+  }
+  // Half for the kind of trips they pick, half for the level they ride at
+  if (history && history.events.length > 0) {
+    const pastTags = [...new Set(history.events.flatMap((item) => item.tags))];
+    const pastLevel = Math.max(
+      ...history.events.map((item) =>
+        levelSimilarity(level, difficultyLevel(item))
+      )
+    );
+    score +=
+      (WEIGHTS.history * (tagSimilarity(event.tags, pastTags) + pastLevel)) / 2;
+  }
+  // Counts even without past events: it's what they said about themselves
+  if (history?.experience) {
+    const target = DIFFICULTY_LEVELS.indexOf(
+      EXPERIENCE_DIFFICULTY[history.experience]
+    );
+    score += WEIGHTS.experience * levelSimilarity(level, target);
+  }
+  return score;
+}
+
+// Upcoming active events most like the source event, best match first.
+// Events the member is already registered for are left out.
+export function recommendEvents(
+  source: Event,
+  candidates: Event[],
+  history: RiderHistory | null,
+  limit: number
+): Event[] {
+  const now = Date.now();
+  const registered = new Set(history?.events.map((event) => event._id));
+  return candidates
+    .filter(
+      (event) =>
+        event._id !== source._id &&
+        event.status === 'active' &&
+        new Date(event.date).getTime() > now &&
+        !registered.has(event._id)
+    )
+    .map((event) => ({ event, score: scoreEvent(event, source, history) }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        new Date(a.event.date).getTime() - new Date(b.event.date).getTime()
+    )
+    .slice(0, limit)
+    .map(({ event }) => event);
+}
@@ -0,0 +1,88 @@
+// Minimal runtime decoders used to check API responses against the domain
+// types before they reach the pages.
+
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+export class DecodeError extends Error {
+  path: string;
+  expected: string;
+  received: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    const received = describe(value);
+    super(`Invalid response at "${path}": expected ${expected}, received ${received}`);
+    this.name = 'DecodeError';
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export const string: Decoder<string> = (value, path) => {
+  if (typeof value !== 'string') throw new DecodeError(path, 'string', value);
+  return value;
+};
+
+export const number: Decoder<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new DecodeError(path, 'number', value);
+  }
+  return value;
+};
+
+export const boolean: Decoder<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new DecodeError(path, 'boolean', value);
+  return value;
+};
+
+export function literal<T extends string>(...values: T[]): Decoder<T> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !values.includes(value as T)) {
+      throw new DecodeError(path, values.map((v) => `"${v}"`).join(' | '), value);
+    }
+    return value as T;
+  };
+}
+
+export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+  return (value, path) =>
+    value === undefined || value === null ? undefined : decoder(value, path);
+}
+
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (value, path) => (value === null ? null : decoder(value, path));
+}
+
+export function array<T>(decoder: Decoder<T>): Decoder<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new DecodeError(path, 'array', value);
+    return value.map((item, index) => decoder(item, `${path}[${index}]`));
+  };
+}
+
+type Shape<T> = { [K in keyof Required<T>]: Decoder<T[K]> };
+
+// Only the declared keys are checked; unknown keys are passed through untouched
+export function object<T>(shape: Shape<T>): Decoder<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new DecodeError(path, 'object', value);
+    }
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...record };
+    (Object.keys(shape) as (keyof T & string)[]).forEach((key) => {
+      result[key] = shape[key](record[key], `${path}.${key}`);
+    });
+    return result as T;
+  };
+}
+
+export function decode<T>(decoder: Decoder<T>, value: unknown, path: string): T {
+  return decoder(value, path);
+}
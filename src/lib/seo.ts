@@ -0,0 +1,132 @@
+import { DEFAULT_DURATION_MINUTES, parseDuration } from './ical';
+import { truncateText } from './utils';
+import { Event } from '@/types';
+
+// Canonical links, the sitemap and share previews need absolute URLs, and
+// behind a proxy the request origin isn't always the public one
+export const SITE_URL = (
+  process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+).replace(/\/+$/, '');
+
+// Where the API serves uploaded images, as the public reaches it. Relative
+// image paths have no public address without it, so they're left out
+const ASSET_URL = (process.env.NEXT_PUBLIC_ASSET_URL || '').replace(/\/+$/, '');
+
+export const SITE_NAME = 'Off-Road Adventures';
+
+const DESCRIPTION_LENGTH = 160;
+
+// Offers with this few spots left are marked as limited
+const LIMITED_SPOTS = 3;
+
+export function absoluteUrl(path: string): string {
+  return `${SITE_URL}${path}`;
+}
+
+// Inline (data:) images can't be linked to from a crawler or a preview
+export function publicImageUrl(path: string): string | null {
+  if (/^https?:/.test(path)) return path;
+  if (!path || !ASSET_URL || /^[a-z]+:/i.test(path)) return null;
+  return `${ASSET_URL}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+export function eventImageUrls(event: Event): string[] {
+  return [
+    ...event.images.filter((image) => image.isPrimary),
+    ...event.images.filter((image) => !image.isPrimary),
+  ]
+    .map((image) => publicImageUrl(image.url))
+    .filter((url): url is string => url !== null);
+}
+
+// The branded card served at /events/<id>/preview.png; the version changes
+// with every edit, so chat apps that cache previews by URL pick up new ones
+export const PREVIEW_IMAGE_SIZE = { width: 1200, height: 630 };
+
+export function eventPreviewImage(event: Event) {
+  const version = Date.parse(event.updatedAt) || 0;
+  return {
+    url: `/events/${event._id}/preview.png?v=${version}`,
+    ...PREVIEW_IMAGE_SIZE,
+    alt: event.title,
+  };
+}
+
+export function eventDescription(event: Event): string {
+  return truncateText(
+    event.shortDescription || event.description,
+    DESCRIPTION_LENGTH
+  );
+}
+
+function offerAvailability(event: Event): string {
+  if (
+    event.status !== 'active' ||
+    new Date(event.registrationDeadline) < new Date()
+  ) {
+    return 'https://schema.org/Discontinued';
+  }
+  if (event.isFull) return 'https://schema.org/SoldOut';
+  return event.availableSpots <= LIMITED_SPOTS
+    ? 'https://schema.org/LimitedAvailability'
+    : 'https://schema.org/InStock';
+}
+
+// schema.org Event, for rich results in search
+export function eventJsonLd(event: Event) {
+  const start = new Date(event.date);
+  const minutes = parseDuration(event.duration) ?? DEFAULT_DURATION_MINUTES;
+  const url = absoluteUrl(`/events/${event._id}`);
+  const coordinates = event.location.coordinates;
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Event',
+    name: event.title,
+    description: eventDescription(event),
+    url,
+    startDate: start.toISOString(),
+    endDate: new Date(start.getTime() + minutes * 60 * 1000).toISOString(),
+    eventStatus:
+      event.status === 'cancelled'
+        ? 'https://schema.org/EventCancelled'
+        : 'https://schema.org/EventScheduled',
+    eventAttendanceMode: 'https://schema.org/OfflineEventAttendanceMode',
+    image: eventImageUrls(event),
+    location: {
+      '@type': 'Place',
+      name: event.location.address,
+      address: event.location.address,
+      ...(coordinates && {
+        geo: {
+          '@type': 'GeoCoordinates',
+          latitude: coordinates.latitude,
+          longitude: coordinates.longitude,
+        },
+      }),
+    },
+    maximumAttendeeCapacity: event.maxParticipants,
+    remainingAttendeeCapacity: event.availableSpots,
+    offers: {
+      '@type': 'Offer',
+      url,
+      price: event.price,
+      priceCurrency: 'USD',
+      availability: offerAvailability(event),
+      validThrough: new Date(event.registrationDeadline).toISOString(),
+      inventoryLevel: {
+        '@type': 'QuantitativeValue',
+        value: event.availableSpots,
+      },
+    },
+    organizer: {
+      '@type': 'Organization',
+      name: SITE_NAME,
+      url: SITE_URL,
+    },
+  };
+}
+
+// Safe to put inside a <script> tag: "<" can't close it early
+export function serializeJsonLd(data: unknown): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
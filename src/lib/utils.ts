@@ -1,4 +1,6 @@
 import { clsx, type ClassValue } from 'clsx';
+import { DecodeError } from './schema';
+import { PermissionError } from './permissions';
 
 export function cn(...inputs: ClassValue[]) {
   return clsx(inputs);
@@ -86,20 +88,20 @@ export function getPriorityColor(priority: string): string {
   }
 }
 
+// isFull, when the API sends it, also counts spots held for the waitlist
 export function isEventRegistrationOpen(event: {
   registrationDeadline: string;
   status: string;
   currentParticipants: number;
   maxParticipants: number;
+  isFull?: boolean;
 }): boolean {
   const now = new Date();
   const deadline = new Date(event.registrationDeadline);
+  const isFull =
+    event.isFull ?? event.currentParticipants >= event.maxParticipants;
   
-  return (
-    now <= deadline &&
-    event.status === 'active' &&
-    event.currentParticipants < event.maxParticipants
-  );
+  return now <= deadline && event.status === 'active' && !isFull;
 }
 
 export function timeUntilEvent(eventDate: string): string {
@@ -138,7 +140,47 @@ export function generateSlug(text: string): string {
 
 export const getImageUrl = (path: string) => {
   if (!path) return '/placeholder-image.jpg';
-  if (path.startsWith('http')) return path;
+  if (/^(https?:|data:|blob:)/.test(path)) return path;
   const normalizedPath = path.startsWith('/') ? path : `/${path}`;
   return `http://localhost:5001${normalizedPath}`;
-};
\ No newline at end of file
+};
+
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof DecodeError) {
+    return `${fallback}: the server returned unexpected data (${error.path})`;
+  }
+  if (error instanceof PermissionError) {
+    return error.message;
+  }
+  const response = (error as { response?: { data?: { message?: string } } })
+    ?.response;
+  return response?.data?.message || fallback;
+}
+
+export function getErrorStatus(error: unknown): number | undefined {
+  return (error as { response?: { status?: number } })?.response?.status;
+}
+
+// Only same-origin paths are accepted so returnTo can't become an open
+// redirect. Browsers read "\" as "/" and drop tabs and newlines, so values
+// with those are refused, and what's left must resolve to a path on the
+// origin it's resolved against (a fixed one, so this also works on the server)
+const RETURN_TO_BASE = 'http://return-to.invalid';
+
+export function safeReturnTo(value: string | null | undefined): string | null {
+  if (!value || !value.startsWith('/') || value.startsWith('//')) return null;
+  if (/[\\\u0000-\u001f\u007f]/.test(value)) return null;
+  try {
+    if (new URL(value, RETURN_TO_BASE).origin !== RETURN_TO_BASE) return null;
+  } catch {
+    return null;
+  }
+  return value;
+}
+
+export function signInUrl(returnTo?: string): string {
+  const target = safeReturnTo(returnTo);
+  return target
+    ? `/auth/signin?returnTo=${encodeURIComponent(target)}`
+    : '/auth/signin';
+}
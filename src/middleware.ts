@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  fetchSessionUser,
+  readSession,
+  refreshSession,
+  writeSession,
+} from '@/lib/bff/session';
+import { decodeToken, isTokenExpired } from '@/lib/jwt';
+import {
+  canAccessAdminPage,
+  isStaff,
+  needsTwoFactorSetup,
+} from '@/lib/permissions';
+import { signInUrl } from '@/lib/utils';
+
+export async function middleware(request: NextRequest) {
+  let session = readSession(request);
+  const { pathname, search } = request.nextUrl;
+  const toSignIn = () =>
+    NextResponse.redirect(
+      new URL(signInUrl(`${pathname}${search}`), request.url)
+    );
+
+  if (
+    !session.token ||
+    (isTokenExpired(decodeToken(session.token)) && !session.refreshToken)
+  ) {
+    return toSignIn();
+  }
+
+  // Any signed-in user may open their account pages
+  if (!pathname.startsWith('/admin')) {
+    return NextResponse.next();
+  }
+
+  // Admin pages are only served once the backend confirms who this is; an
+  // expired or revoked access token gets one refresh, like API calls do
+  const userAgent = request.headers.get('user-agent') || '';
+  let refreshed = false;
+  const refresh = async () => {
+    const next = await refreshSession(session, userAgent);
+    if (next) {
+      session = next;
+      refreshed = true;
+    }
+    return Boolean(next);
+  };
+
+  let user = null;
+  try {
+    if (!isTokenExpired(decodeToken(session.token)) || (await refresh())) {
+      user = await fetchSessionUser(session.token!, userAgent);
+    }
+    if (!user && !refreshed && (await refresh())) {
+      user = await fetchSessionUser(session.token!, userAgent);
+    }
+  } catch (error) {
+    console.error('Failed to check the session for an admin page:', error);
+    return new NextResponse('Could not check your session, please try again', {
+      status: 503,
+    });
+  }
+  if (!user) return toSignIn();
+
+  let response: NextResponse;
+  if (!isStaff(user)) {
+    response = NextResponse.redirect(new URL('/', request.url));
+  } else if (needsTwoFactorSetup(user)) {
+    // The backend refuses admin calls too; this just sends them to enroll
+    response = NextResponse.redirect(new URL('/account/security', request.url));
+  } else if (!canAccessAdminPage(user, pathname)) {
+    response = NextResponse.redirect(new URL('/admin', request.url));
+  } else {
+    response = NextResponse.next();
+  }
+  if (refreshed) writeSession(response, { ...session, user });
+  return response;
+}
+
+export const config = {
+  // Checking the session calls the backend through the BFF helpers
+  runtime: 'nodejs',
+  matcher: ['/admin/:path*', '/account/:path*'],
+};
@@ -1,9 +1,32 @@
+export type Role =
+  | 'user'
+  | 'admin'
+  | 'event_manager'
+  | 'media_manager'
+  | 'guide'
+  | 'support_agent';
+
+// Roles that can only be granted through an admin invite
+export type StaffRole = Exclude<Role, 'user'>;
+
+export type PermissionAction = 'view' | 'create' | 'update' | 'delete';
+
+export type PermissionResource =
+  | 'dashboard'
+  | 'events'
+  | 'registrations'
+  | 'gallery'
+  | 'contacts'
+  | 'invites';
+
 export interface User {
   id: string;
   name: string;
   email: string;
   phone: string;
-  role: 'user' | 'admin';
+  role: Role;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
   profileImage?: string;
   createdAt: string;
 }
@@ -50,8 +73,13 @@ export interface Event {
 
 export interface Registration {
   _id: string;
-  event: Event;
-  user: User;
+  // The API populates only what's needed to list the registration
+  event: Pick<Event, '_id' | 'title' | 'date'>;
+  user: {
+    _id: string;
+    name: string;
+    email: string;
+  };
   participantDetails: {
     name: string;
     email: string;
@@ -124,36 +152,312 @@ export interface Contact {
   updatedAt: string;
 }
 
+export interface Invite {
+  _id: string;
+  email: string;
+  name?: string;
+  role: StaffRole;
+  // Pending invites past expiresAt are reported as expired
+  status: 'pending' | 'accepted' | 'revoked' | 'expired';
+  invitedBy: {
+    _id: string;
+    name: string;
+  };
+  expiresAt: string;
+  acceptedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Returned when an invite is created or re-sent; the link is not stored
+export interface InviteLinkResponse {
+  invite: Invite;
+  inviteUrl: string;
+}
+
+// What the invite link reveals to the person accepting it
+export interface InviteDetails {
+  email: string;
+  name?: string;
+  role: StaffRole;
+  expiresAt: string;
+}
+
 export interface ApiResponse<T> {
   message: string;
   data?: T;
   error?: string;
 }
 
+export interface Pagination {
+  currentPage: number;
+  totalPages: number;
+  total: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
-  pagination: {
-    currentPage: number;
-    totalPages: number;
-    total: number;
-    hasNext: boolean;
-    hasPrev: boolean;
-  };
+  pagination: Pagination;
+}
+
+// Numbered pages, or further pages appended as the list is scrolled
+export type ListMode = 'pages' | 'infinite';
+
+// Backend sign-in response; only the BFF route handlers ever see the tokens
+export interface AuthResponse {
+  token: string;
+  refreshToken?: string;
+  user: User;
+}
+
+// What the BFF tells the browser about the session held in its cookies
+export interface SessionInfo {
+  user: User | null;
+  // Epoch ms when the session ends, null when the token doesn't say
+  expiresAt: number | null;
+  // Whether a refresh token can extend the session before it ends
+  canRefresh: boolean;
+}
+
+// The BFF's answer to a successful sign-in, with the tokens stripped out
+export interface AuthSession extends SessionInfo {
+  user: User;
+}
+
+// Sent by /auth/login instead of tokens when the account has 2FA enabled
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  expiresAt: string;
+}
+
+export type LoginResponse = AuthSession | TwoFactorChallenge;
+
+export type LoginResult = 'signed-in' | 'two-factor-required';
+
+// A backup code can stand in for an authenticator code, once
+export type TwoFactorMethod = 'totp' | 'backup';
+
+export interface TwoFactorLoginData {
+  challengeToken: string;
+  code: string;
+  method: TwoFactorMethod;
+}
+
+export interface RefreshResponse {
+  token: string;
+  refreshToken?: string;
+}
+
+export interface RegisterData {
+  name: string;
+  email: string;
+  phone: string;
+  password: string;
+}
+
+export interface InviteFormData {
+  email: string;
+  name?: string;
+  role: StaffRole;
+}
+
+export interface AcceptInviteData {
+  token: string;
+  name: string;
+  phone: string;
+  password: string;
+}
+
+export interface DashboardStats {
+  totalEvents: number;
+  totalRegistrations: number;
+  totalUsers: number;
+  totalGalleryImages: number;
+  recentRegistrations: Registration[];
+  recentContacts: Contact[];
+}
+
+// Soonest first, cheapest first or most spots left first
+export type EventSort = 'date' | 'price' | 'spots';
+
+export interface EventFilters {
+  difficulty?: string;
+  search?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  // Inclusive calendar dates, YYYY-MM-DD
+  from?: string;
+  to?: string;
+  // Comma separated; an event matches if it has any of them
+  tags?: string;
+  available?: boolean;
+  // "latitude,longitude" and a radius in km around it
+  near?: string;
+  radius?: number;
+  sort?: EventSort;
+  page?: number;
+  limit?: number;
+}
+
+export interface AdminEventFilters extends EventFilters {
+  status?: string;
+}
+
+export interface GalleryFilters {
+  category?: string;
+  featured?: string;
+  limit?: number;
+}
+
+export interface RegistrationFilters {
+  status?: string;
+  event?: string;
+  search?: string;
+}
+
+export interface ContactFilters {
+  status?: string;
+  priority?: string;
+  search?: string;
+}
+
+export interface InviteFilters {
+  status?: string;
 }
 
 export interface AuthContextType {
   user: User | null;
-  token: string | null;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
-  register: (userData: {
-    name: string;
-    email: string;
-    phone: string;
-    password: string;
-    role?: 'user' | 'admin';
-  }) => Promise<void>;
+  // Epoch ms when the session ends, null when the token doesn't say
+  sessionExpiresAt: number | null;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  // Second sign-in step after login resolved with 'two-factor-required'
+  verifyTwoFactor: (code: string, method: TwoFactorMethod) => Promise<void>;
+  cancelTwoFactor: () => void;
+  register: (userData: RegisterData) => Promise<void>;
+  acceptInvite: (data: AcceptInviteData) => Promise<void>;
   logout: () => void;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (token: string, password: string) => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
+  resendVerification: () => Promise<void>;
+  updateProfile: (data: ProfileUpdateData) => Promise<void>;
+  uploadAvatar: (file: File) => Promise<void>;
+  changePassword: (data: PasswordChangeData) => Promise<void>;
+  enableTwoFactor: (code: string) => Promise<string[]>;
+  disableTwoFactor: (data: TwoFactorDisableData) => Promise<void>;
+  staySignedIn: () => Promise<void>;
+}
+
+// Outcome of checking a password reset link before showing the form
+export type ResetTokenStatus = 'valid' | 'expired' | 'invalid';
+
+export interface Session {
+  id: string;
+  device: string;
+  createdAt: string;
+  lastActiveAt: string;
+  current: boolean;
+}
+
+export interface ProfileUpdateData {
+  name: string;
+  phone: string;
+}
+
+export interface PasswordChangeData {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface VerifyEmailResponse {
+  message: string;
+  user: User;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Whether the account's role may not turn 2FA off
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorEnableResponse {
+  user: User;
+  backupCodes: string[];
+}
+
+export interface TwoFactorDisableData {
+  password: string;
+  code: string;
+}
+
+// waiting: in the queue; offered: a spot is held until offerExpiresAt;
+// claimed: registered with the offer; expired: the offer ran out;
+// left: withdrew or declined
+export type WaitlistStatus =
+  | 'waiting'
+  | 'offered'
+  | 'claimed'
+  | 'expired'
+  | 'left';
+
+export interface WaitlistEntry {
+  _id: string;
+  eventId: string;
+  status: WaitlistStatus;
+  // Place among the people still waiting, from 1; null once offered or
+  // closed
+  position: number | null;
+  offeredAt?: string;
+  offerExpiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The signed-in member's place on one event's waitlist
+export interface WaitlistState {
+  // Their latest entry, closed ones included; null if they never joined
+  entry: WaitlistEntry | null;
+  // How many people are waiting in total
+  waiting: number;
+}
+
+export interface AdminWaitlistEntry extends WaitlistEntry {
+  user: Pick<User, 'id' | 'name' | 'email'>;
+}
+
+export interface AdminWaitlist {
+  event: Event;
+  entries: AdminWaitlistEntry[];
+}
+
+// The secret behind a member's personal calendar feed
+export interface CalendarFeed {
+  token: string;
+  createdAt: string;
+}
+
+// What the feed endpoint returns for a token: the member's active
+// registrations, without participant details
+export interface RegistrationFeed {
+  owner: string;
+  entries: RegistrationFeedEntry[];
+}
+
+export interface RegistrationFeedEntry {
+  registrationId: string;
+  registrationStatus: Registration['registrationStatus'];
+  updatedAt: string;
+  event: Event;
 }
 
 export interface EventFormData {
@@ -201,4 +505,12 @@ export interface RegistrationFormData {
     };
     additionalNotes?: string;
   };
-}
\ No newline at end of file
+}
+
+export interface ContactFormData {
+  name: string;
+  email: string;
+  phone?: string;
+  subject: string;
+  message: string;
+}